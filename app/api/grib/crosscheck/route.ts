@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeWithGrib2Json, Grib2JsonUnavailableError } from '../../../lib/grib2json';
+import { parseDomain, parseProduct, parseTime } from '../../../lib/mrmsQuery';
+import { UpstreamFetchError } from '../../../lib/mrmsSources';
+import { CachedMrmsFile, getCachedMrmsFile } from '../../../lib/radarCache';
+import { readGribUpload } from '../../../lib/upload';
+import { compareGribFields, GribCrossCheckOptions } from '../../../utils/gribCrossCheck';
+import { GribDecodeError, serializeGribError } from '../../../utils/gribErrors';
+import { GribDecodeOptions, SimpleGribProcessor } from '../../../utils/gribProcessor';
+
+interface CrossCheckQuery {
+  decode: GribDecodeOptions;
+  compare: GribCrossCheckOptions;
+}
+
+/**
+ * Decode the same file with SimpleGribProcessor and with grib2json and
+ * report where they disagree, grib2json being the reference.
+ *
+ * Query parameters:
+ *   product      MRMS product name, for the upstream file (default ReflectivityAtLowestAltitude)
+ *   domain       CONUS (default), ALASKA, HAWAII, CARIB or GUAM
+ *   time         the listed file nearest this time instead of the latest
+ *   tolerance    largest absolute difference counted as equal (default 0.001)
+ *   maxReported  differing cells listed per field (default 20)
+ *   bbox         west,south,east,north in degrees, to compare part of the grid
+ *
+ * grib2json prints every value as JSON, so full CONUS MRMS files take a
+ * while and a few hundred MB of memory.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const query = parseQuery(searchParams);
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+  const product = parseProduct(searchParams);
+  if (product instanceof NextResponse) return product;
+  const domain = parseDomain(searchParams);
+  if (domain instanceof NextResponse) return domain;
+  const time = parseTime(searchParams);
+  if (time instanceof NextResponse) return time;
+
+  try {
+    let cached: CachedMrmsFile;
+    try {
+      cached = await getCachedMrmsFile(product, domain, time);
+    } catch (error) {
+      if (!(error instanceof UpstreamFetchError)) throw error;
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch radar data from NOAA MRMS',
+          status: error.status,
+          statusText: error.statusText,
+        },
+        { status: 502 }
+      );
+    }
+
+    return await crossCheckResponse(cached.file.body, cached.source.name, query);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+// Cross-check an uploaded file, sent as multipart form data (field "file") or as the raw body
+export async function POST(request: NextRequest) {
+  const query = parseQuery(new URL(request.url).searchParams);
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+
+  try {
+    const upload = await readGribUpload(request);
+    if ('error' in upload) {
+      return NextResponse.json({ error: upload.error }, { status: upload.status });
+    }
+    return await crossCheckResponse(upload.file, upload.filename, query);
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+async function crossCheckResponse(file: Uint8Array, filename: string, query: CrossCheckQuery) {
+  // Strict on both sides, so a failure is reported rather than compared against demo data
+  const decode = { ...query.decode, strict: true };
+  const reference = await decodeWithGrib2Json(file, decode);
+  const fields = await SimpleGribProcessor.processGribMessages(file, decode);
+
+  const report = compareGribFields(reference, fields, query.compare);
+  const differing = report.fields.filter(field => field.cellsDiffering > 0 || field.headerMismatches.length > 0).length;
+  console.log(`Cross-check of ${filename}: ${report.matches ? 'decoders agree' : `${differing} field(s) differ`}`);
+  return NextResponse.json({ filename, ...report });
+}
+
+function errorResponse(error: unknown) {
+  console.error('Error cross-checking radar data:', error);
+
+  if (error instanceof Grib2JsonUnavailableError) {
+    return NextResponse.json({ error: 'grib2json backend is not available', message: error.message }, { status: 503 });
+  }
+  if (error instanceof GribDecodeError) {
+    return NextResponse.json(
+      { error: 'File could not be decoded by both backends', details: serializeGribError(error) },
+      { status: 422 }
+    );
+  }
+  return NextResponse.json(
+    {
+      error: 'Internal server error while cross-checking radar data',
+      message: error instanceof Error ? error.message : 'Unknown error',
+    },
+    { status: 500 }
+  );
+}
+
+function parseQuery(params: URLSearchParams): CrossCheckQuery | { error: string } {
+  const compare: GribCrossCheckOptions = {};
+  for (const name of ['tolerance', 'maxReported'] as const) {
+    const raw = params.get(name);
+    if (raw === null) continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      return { error: `${name} must be a non-negative number` };
+    }
+    compare[name] = value;
+  }
+
+  const decode: GribDecodeOptions = {};
+  const bbox = params.get('bbox');
+  if (bbox !== null) {
+    const [minLon, minLat, maxLon, maxLat] = bbox.split(',').map(Number);
+    if ([minLon, minLat, maxLon, maxLat].some(value => !Number.isFinite(value)) || minLat >= maxLat || minLon >= maxLon) {
+      return { error: 'bbox must be west,south,east,north in degrees' };
+    }
+    decode.bounds = { minLat, maxLat, minLon, maxLon };
+  }
+
+  return { decode, compare };
+}
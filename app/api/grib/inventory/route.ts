@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { parseDomain, parseProduct, parseTime } from '../../../lib/mrmsQuery';
+import { UpstreamFetchError } from '../../../lib/mrmsSources';
+import { CachedMrmsFile, getCachedMrmsFile } from '../../../lib/radarCache';
+import { readGribUpload } from '../../../lib/upload';
+import { GribDecodeError, serializeGribError } from '../../../utils/gribErrors';
+import { readGribInventory } from '../../../utils/gribInventory';
+
+/**
+ * Inventory of the latest upstream file, read through the file cache.
+ *
+ * Query parameters:
+ *   product  MRMS product name (default ReflectivityAtLowestAltitude)
+ *   domain   CONUS (default), ALASKA, HAWAII, CARIB or GUAM
+ *   time     the listed file nearest this time instead of the latest
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const product = parseProduct(searchParams);
+  if (product instanceof NextResponse) return product;
+  const domain = parseDomain(searchParams);
+  if (domain instanceof NextResponse) return domain;
+  const time = parseTime(searchParams);
+  if (time instanceof NextResponse) return time;
+
+  try {
+    let cached: CachedMrmsFile;
+    try {
+      cached = await getCachedMrmsFile(product, domain, time);
+    } catch (error) {
+      if (!(error instanceof UpstreamFetchError)) throw error;
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch radar data from NOAA MRMS',
+          status: error.status,
+          statusText: error.statusText,
+        },
+        { status: 502 }
+      );
+    }
+
+    return inventoryResponse(cached.file.body, cached.source.name, cached.source.url);
+  } catch (error) {
+    console.error('Error fetching radar data for inventory:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error while fetching radar data',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Inventory of an uploaded file, sent as multipart form data (field "file") or as the raw body
+export async function POST(request: NextRequest) {
+  try {
+    const upload = await readGribUpload(request);
+    if ('error' in upload) {
+      return NextResponse.json({ error: upload.error }, { status: upload.status });
+    }
+    return inventoryResponse(upload.file, upload.filename, null);
+  } catch (error) {
+    console.error('Error reading uploaded file for inventory:', error);
+
+    return NextResponse.json(
+      {
+        error: 'Internal server error while reading uploaded file',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+function inventoryResponse(file: Uint8Array, filename: string, sourceUrl: string | null) {
+  try {
+    const inventory = readGribInventory(file);
+    console.log(`Inventory of ${filename}: ${inventory.messages.length} message(s)`);
+    return NextResponse.json({ filename, sourceUrl, ...inventory });
+  } catch (error) {
+    // The file itself is unreadable, as opposed to one bad message inside it
+    if (error instanceof GribDecodeError) {
+      return NextResponse.json(
+        { error: 'File is not readable GRIB2 data', details: serializeGribError(error) },
+        { status: 422 }
+      );
+    }
+    throw error;
+  }
+}
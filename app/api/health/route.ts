@@ -1,9 +1,25 @@
 import { NextResponse } from 'next/server';
+import { ConfigError, getRadarConfig } from '../../lib/config';
 
 export async function GET() {
-  return NextResponse.json({ 
-    status: 'healthy', 
-    timestamp: new Date().toISOString(),
-    service: 'radar-viz'
-  });
-}
\ No newline at end of file
+  try {
+    const { source } = getRadarConfig();
+    return NextResponse.json({ 
+      status: 'healthy', 
+      timestamp: new Date().toISOString(),
+      service: 'radar-viz',
+      upstream: source.kind,
+    });
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    return NextResponse.json(
+      {
+        status: 'misconfigured',
+        timestamp: new Date().toISOString(),
+        service: 'radar-viz',
+        problems: error.problems,
+      },
+      { status: 503 }
+    );
+  }
+}
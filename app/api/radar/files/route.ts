@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { productDirectoryUrl } from '../../../lib/mrms';
+import { parseDomain, parseProduct } from '../../../lib/mrmsQuery';
+import { UpstreamFetchError } from '../../../lib/mrmsSources';
+import { getCachedMrmsListing } from '../../../lib/radarCache';
+
+/**
+ * Timestamped files NOAA currently lists for a product, oldest first. Pass a
+ * file's valid time as `time` to /api/download-latest-radar to fetch it.
+ * The listing is shared with those lookups and fetched at most once per half
+ * update interval.
+ *
+ * Query parameters:
+ *   product  MRMS product name (default ReflectivityAtLowestAltitude)
+ *   domain   CONUS (default), ALASKA, HAWAII, CARIB or GUAM
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const product = parseProduct(searchParams);
+  if (product instanceof NextResponse) return product;
+  const domain = parseDomain(searchParams);
+  if (domain instanceof NextResponse) return domain;
+
+  try {
+    const directoryUrl = productDirectoryUrl(product, domain);
+    console.log(`Listing radar files in: ${directoryUrl}`);
+    const { files, status, fetchedAt } = await getCachedMrmsListing(product, domain);
+    console.log(`📂 Found ${files.length} ${product} files for ${domain} (listing ${status})`);
+
+    return NextResponse.json(
+      {
+        product,
+        domain,
+        directoryUrl,
+        listedAt: new Date(fetchedAt).toISOString(),
+        count: files.length,
+        files: files.map(({ name, url, validTime }) => ({ name, url, validTime: validTime.toISOString() })),
+      },
+      { headers: { 'X-Cache': status } }
+    );
+  } catch (error) {
+    if (error instanceof UpstreamFetchError) {
+      return NextResponse.json(
+        {
+          error: 'Failed to list radar files on MRMS',
+          status: error.status,
+          statusText: error.statusText,
+        },
+        { status: 502 }
+      );
+    }
+    console.error('Error listing radar files:', error);
+    return NextResponse.json(
+      {
+        error: 'Internal server error while listing radar files',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
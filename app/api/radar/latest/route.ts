@@ -0,0 +1,256 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { decodeWithGrib2Json, GRIB_BACKENDS, GribBackend, Grib2JsonUnavailableError } from '../../../lib/grib2json';
+import { parseDomain, parseProduct, parseTime } from '../../../lib/mrmsQuery';
+import { UpstreamFetchError } from '../../../lib/mrmsSources';
+import { CachedMrmsFile, getCachedMrmsFile } from '../../../lib/radarCache';
+import { encodeGribMessage, metadataFromField } from '../../../utils/gribEncoder';
+import { GribDecodeError, serializeGribError } from '../../../utils/gribErrors';
+import { GribDecodeOptions, SimpleGribProcessor } from '../../../utils/gribProcessor';
+import { GridBounds } from '../../../utils/gribProjection';
+import { GridReducer } from '../../../utils/radarGrid';
+import { describeRadarGrid, encodeCompactGrid } from '../../../utils/radarGridCodec';
+
+const FORMATS = ['uint8', 'int16', 'json', 'grib2'] as const;
+const REDUCERS: GridReducer[] = ['max', 'mean', 'nearest'];
+const DEFAULT_MAX_CELLS = 1_000_000;
+const JSON_MAX_CELLS = 250_000; // every value costs ~10 bytes of JSON
+const PAYLOAD_CACHE_MAX_BYTES = 64 * 1024 * 1024;
+
+type GridFormat = (typeof FORMATS)[number];
+
+interface GridQuery {
+  format: GridFormat;
+  backend: GribBackend;
+  field: number;
+  options: GribDecodeOptions;
+}
+
+// A decoded and encoded response body, the same for every request with the same file and query
+interface GridPayload {
+  status: number;
+  body: Uint8Array<ArrayBuffer>;
+  headers: Record<string, string>;
+}
+
+// Recent payloads by file hash and query, least recently used first, and decodes in progress
+const payloads = new Map<string, GridPayload>();
+const decoding = new Map<string, Promise<GridPayload>>();
+let payloadBytes = 0;
+
+/**
+ * Latest MRMS field decoded on the server, read through the file cache.
+ *
+ * Query parameters:
+ *   product     MRMS product name (default ReflectivityAtLowestAltitude)
+ *   domain      CONUS (default), ALASKA, HAWAII, CARIB or GUAM
+ *   time        the listed file nearest this time instead of the latest
+ *   format      uint8 (default) or int16 for the compact binary grid, json, or grib2
+ *               for the (cropped, downsampled) field as a GRIB2 message
+ *   bbox        west,south,east,north in degrees
+ *   stride      keep one cell per stride × stride block
+ *   resolution  target cell size in degrees, used when no stride is given
+ *   maxCells    upper limit on width × height (default 1,000,000; 250,000 for json)
+ *   reducer     max (default), mean or nearest
+ *   field       index of the field when the file holds several (default 0)
+ *   backend     native (default) or grib2json, which needs the grib2json tool installed
+ *
+ * Encoded responses are kept by file hash and query, so repeating a request
+ * while the file is unchanged doesn't decode it again.
+ */
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const query = parseQuery(searchParams);
+  if ('error' in query) {
+    return NextResponse.json({ error: query.error }, { status: 400 });
+  }
+  const product = parseProduct(searchParams);
+  if (product instanceof NextResponse) return product;
+  const domain = parseDomain(searchParams);
+  if (domain instanceof NextResponse) return domain;
+  const time = parseTime(searchParams);
+  if (time instanceof NextResponse) return time;
+
+  try {
+    let cached: CachedMrmsFile;
+    try {
+      cached = await getCachedMrmsFile(product, domain, time);
+    } catch (error) {
+      if (!(error instanceof UpstreamFetchError)) throw error;
+      return NextResponse.json(
+        {
+          error: 'Failed to fetch radar data from NOAA MRMS',
+          status: error.status,
+          statusText: error.statusText,
+        },
+        { status: 502 }
+      );
+    }
+    const { file, source } = cached;
+    const payloadKey = `${file.hash}/${query.backend}/${query.format}/${query.field}/${JSON.stringify(query.options)}`;
+    const known = payloads.get(payloadKey);
+    if (known) rememberPayload(payloadKey, known);
+    const payload = known ?? (await decodePayload(payloadKey, file.body, query));
+    console.log(`${known ? 'Reusing the decoded' : 'Decoded'} ${source.name} (file cache ${cached.status})`);
+
+    const headers = new Headers(payload.headers);
+    headers.set('X-Original-URL', source.url);
+    headers.set('X-MRMS-Product', product);
+    headers.set('X-MRMS-Domain', domain);
+    if (source.validTime) {
+      headers.set('X-MRMS-Valid-Time', source.validTime.toISOString());
+    }
+    headers.set('X-Cache', cached.status);
+    headers.set('X-Decode-Cache', known ? 'HIT' : 'MISS');
+    if (file.lastModified) {
+      headers.set('Last-Modified', file.lastModified);
+    }
+    return new NextResponse(payload.body, { status: payload.status, headers });
+  } catch (error) {
+    console.error('Error decoding latest radar data:', error);
+
+    if (error instanceof Grib2JsonUnavailableError) {
+      return NextResponse.json({ error: 'grib2json backend is not available', message: error.message }, { status: 503 });
+    }
+    if (error instanceof GribDecodeError) {
+      return NextResponse.json(
+        { error: 'Upstream radar file could not be decoded', details: serializeGribError(error) },
+        { status: 502 }
+      );
+    }
+    return NextResponse.json(
+      {
+        error: 'Internal server error while decoding radar data',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Decode the file and encode the field as asked, sharing the work with identical requests in flight
+function decodePayload(key: string, body: Uint8Array<ArrayBuffer>, query: GridQuery): Promise<GridPayload> {
+  let pending = decoding.get(key);
+  if (!pending) {
+    pending = encodePayload(body, query)
+      .then(payload => {
+        rememberPayload(key, payload);
+        return payload;
+      })
+      .finally(() => decoding.delete(key));
+    decoding.set(key, pending);
+  }
+  return pending;
+}
+
+async function encodePayload(body: Uint8Array<ArrayBuffer>, query: GridQuery): Promise<GridPayload> {
+  // Strict so a broken upstream file is an error rather than demo data
+  const options = { ...query.options, strict: true };
+  const fields = query.backend === 'grib2json'
+    ? await decodeWithGrib2Json(body, options)
+    : await SimpleGribProcessor.processGribMessages(body, options);
+  const field = fields[query.field];
+  if (!field) {
+    return jsonPayload(404, { error: `Field ${query.field} not found, the file holds ${fields.length}` });
+  }
+
+  const times = { referenceTime: field.metadata.timestamp, validTime: field.metadata.validTime };
+  if (query.format === 'json') {
+    const values = Array.from(field.grid.values, value => (Number.isNaN(value) ? null : Number(value.toPrecision(7))));
+    return jsonPayload(200, { ...describeRadarGrid(field.grid, times), values });
+  }
+
+  if (query.format === 'grib2') {
+    const grib = encodeGribMessage(field.grid, metadataFromField(field), { packing: 'png' });
+    return {
+      status: 200,
+      body: grib,
+      headers: {
+        'Content-Type': 'application/octet-stream',
+        'Content-Length': grib.byteLength.toString(),
+        'Content-Disposition': 'attachment; filename="radar-subset.grib2"',
+      },
+    };
+  }
+
+  const grid = encodeCompactGrid(field.grid, times, query.format);
+  return {
+    status: 200,
+    body: grid,
+    headers: {
+      'Content-Type': 'application/octet-stream',
+      'Content-Length': grid.byteLength.toString(),
+      'X-Grid-Width': field.grid.width.toString(),
+      'X-Grid-Height': field.grid.height.toString(),
+    },
+  };
+}
+
+function jsonPayload(status: number, value: unknown): GridPayload {
+  const body = new TextEncoder().encode(JSON.stringify(value));
+  return { status, body, headers: { 'Content-Type': 'application/json', 'Content-Length': body.byteLength.toString() } };
+}
+
+// Keep a payload as the most recently used, dropping the least recently used over the limit
+function rememberPayload(key: string, payload: GridPayload) {
+  const previous = payloads.get(key);
+  if (previous) {
+    payloadBytes -= previous.body.byteLength;
+    payloads.delete(key);
+  }
+  payloads.set(key, payload);
+  payloadBytes += payload.body.byteLength;
+
+  for (const [oldKey, old] of payloads) {
+    if (payloadBytes <= PAYLOAD_CACHE_MAX_BYTES || oldKey === key) break;
+    payloads.delete(oldKey);
+    payloadBytes -= old.body.byteLength;
+  }
+}
+
+function parseQuery(params: URLSearchParams): GridQuery | { error: string } {
+  const format = (params.get('format') ?? 'uint8') as GridFormat;
+  if (!FORMATS.includes(format)) {
+    return { error: `format must be one of ${FORMATS.join(', ')}` };
+  }
+
+  const backend = (params.get('backend') ?? 'native') as GribBackend;
+  if (!GRIB_BACKENDS.includes(backend)) {
+    return { error: `backend must be one of ${GRIB_BACKENDS.join(', ')}` };
+  }
+
+  const numbers: Record<string, number | undefined> = {};
+  for (const name of ['stride', 'resolution', 'maxCells', 'field']) {
+    const raw = params.get(name);
+    if (raw === null) continue;
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0) {
+      return { error: `${name} must be a non-negative number` };
+    }
+    numbers[name] = value;
+  }
+
+  const reducer = (params.get('reducer') ?? 'max') as GridReducer;
+  if (!REDUCERS.includes(reducer)) {
+    return { error: `reducer must be one of ${REDUCERS.join(', ')}` };
+  }
+
+  let bounds: GridBounds | undefined;
+  const bbox = params.get('bbox');
+  if (bbox !== null) {
+    const [minLon, minLat, maxLon, maxLat] = bbox.split(',').map(Number);
+    if ([minLon, minLat, maxLon, maxLat].some(value => !Number.isFinite(value)) || minLat >= maxLat || minLon >= maxLon) {
+      return { error: 'bbox must be west,south,east,north in degrees' };
+    }
+    bounds = { minLat, maxLat, minLon, maxLon };
+  }
+
+  const limit = format === 'json' ? JSON_MAX_CELLS : Infinity;
+  const maxCells = Math.min(numbers.maxCells || Math.min(DEFAULT_MAX_CELLS, limit), limit);
+
+  return {
+    format,
+    backend,
+    field: Math.floor(numbers.field ?? 0),
+    options: { stride: numbers.stride, resolution: numbers.resolution, bounds, maxCells, reducer },
+  };
+}
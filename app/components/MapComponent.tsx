@@ -1,19 +1,26 @@
 'use client';
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useMemo, useRef, useState } from 'react';
 import L from 'leaflet';
 import 'leaflet/dist/leaflet.css';
-
-interface RadarDataPoint {
-  lat: number;
-  lng: number;
-  value: number;
-}
+import { formatParameterValue, lookupParameter } from '../utils/gribParameters';
+import { GridBounds, gridBounds, unwrapLongitude } from '../utils/gribProjection';
+import { GridReducer, gridToPoints, RadarGrid, ValueRange } from '../utils/radarGrid';
+import { DEFAULT_DOMAIN, MRMS_DOMAINS, MrmsDomain } from '../lib/mrmsDomains';
+import { defaultPalette, paletteColor, paletteFraction, RadarPalette } from '../utils/radarPalettes';
 
 interface MapComponentProps {
-  radarData: RadarDataPoint[];
+  grid: RadarGrid | null;
+  valueRange?: ValueRange;
+  reducer?: GridReducer;
+  palette?: RadarPalette; // colours for the product on show; chosen from the parameter when absent
+  label?: string; // legend and popup heading, the parameter name by default
+  units?: string;
+  domain?: MrmsDomain; // default view and dateline handling, CONUS when absent
 }
 
+const DEFAULT_PARAMETER = lookupParameter(209, 0, 0);
+
 // Fix for default markers in Leaflet with Next.js
 delete (L.Icon.Default.prototype as any)._getIconUrl;
 L.Icon.Default.mergeOptions({
@@ -22,16 +29,30 @@ L.Icon.Default.mergeOptions({
   shadowUrl: 'https://cdnjs.cloudflare.com/ajax/libs/leaflet/1.7.1/images/marker-shadow.png',
 });
 
-export default function MapComponent({ radarData }: MapComponentProps) {
+export default function MapComponent({ grid, valueRange, reducer = 'max', palette, label, units, domain = MRMS_DOMAINS[DEFAULT_DOMAIN] }: MapComponentProps) {
   const mapRef = useRef<L.Map | null>(null);
   const mapContainerRef = useRef<HTMLDivElement>(null);
   const radarLayerRef = useRef<L.LayerGroup | null>(null);
+  const [viewBounds, setViewBounds] = useState<GridBounds | null>(null);
+  const parameter = grid?.parameter ?? DEFAULT_PARAMETER;
+  const activePalette = useMemo(() => palette ?? defaultPalette(parameter), [palette, parameter]);
+  const heading = label ?? parameter.name;
+  const headingUnits = units ?? parameter.units;
+  const referenceLon = domain.crossesDateline ? domain.center.lng : undefined;
+  const { lat: centerLat, lng: centerLng } = domain.center;
+  const zoom = domain.zoom;
+
+  // Thin the grid to what is in view, so zooming in reveals full-resolution cells
+  const radarData = useMemo(
+    () => (grid ? gridToPoints(grid, { bounds: viewBounds ?? undefined, valueRange, reducer, maxPoints: 5000 }) : []),
+    [grid, viewBounds, valueRange, reducer]
+  );
 
   // Initialize map
   useEffect(() => {
     if (!mapContainerRef.current || mapRef.current) return;
 
-    // Create map centered on continental US
+    // Create map centered on continental US; the domain effect below moves it
     const map = L.map(mapContainerRef.current).setView([39.8283, -98.5795], 4);
 
     // Add OpenStreetMap tile layer
@@ -59,6 +80,17 @@ export default function MapComponent({ radarData }: MapComponentProps) {
     // Create radar layer group
     radarLayerRef.current = L.layerGroup().addTo(map);
 
+    // Re-sample the grid for the visible area after every pan or zoom
+    map.on('moveend', () => {
+      const bounds = map.getBounds();
+      setViewBounds({
+        minLat: bounds.getSouth(),
+        maxLat: bounds.getNorth(),
+        minLon: bounds.getWest(),
+        maxLon: bounds.getEast(),
+      });
+    });
+
     mapRef.current = map;
 
     return () => {
@@ -69,6 +101,19 @@ export default function MapComponent({ radarData }: MapComponentProps) {
     };
   }, []);
 
+  // Fit map to the grid when a new field arrives
+  useEffect(() => {
+    if (!mapRef.current || !grid || grid.width === 0) return;
+
+    const { minLat, maxLat, minLon, maxLon } = gridBounds(grid.geometry, referenceLon);
+    mapRef.current.fitBounds([[minLat, minLon], [maxLat, maxLon]], { padding: [20, 20] });
+  }, [grid, referenceLon]);
+
+  // Jump to the domain's default view when the domain changes
+  useEffect(() => {
+    mapRef.current?.setView([centerLat, centerLng], zoom);
+  }, [centerLat, centerLng, zoom]);
+
   // Update radar data on map
   useEffect(() => {
     if (!mapRef.current || !radarLayerRef.current) return;
@@ -80,62 +125,20 @@ export default function MapComponent({ radarData }: MapComponentProps) {
 
     console.log(`Rendering ${radarData.length} radar points on map`);
 
-    // Color function for radar reflectivity values (dBZ)
-    const getRadarColor = (value: number): string => {
-      if (value < -20) return '#000000'; // Black - No data
-      if (value < -10) return '#9C9C9C'; // Gray - Very light
-      if (value < 0) return '#0099CC'; // Light blue
-      if (value < 5) return '#00CC99'; // Cyan
-      if (value < 10) return '#00FF00'; // Green
-      if (value < 15) return '#99FF00'; // Light green
-      if (value < 20) return '#FFFF00'; // Yellow
-      if (value < 25) return '#FFCC00'; // Orange
-      if (value < 30) return '#FF9900'; // Dark orange
-      if (value < 35) return '#FF6600'; // Red-orange
-      if (value < 40) return '#FF0000'; // Red
-      if (value < 45) return '#CC0099'; // Pink
-      if (value < 50) return '#9900CC'; // Purple
-      if (value < 55) return '#FFFFFF'; // White
-      return '#FFFFFF'; // White for very high values
-    };
-
-    // Group nearby points to improve performance
-    const gridSize = 0.1; // Degrees
-    const gridData = new Map<string, { lat: number; lng: number; value: number; count: number }>();
-
-    radarData.forEach(point => {
-      const gridLat = Math.round(point.lat / gridSize) * gridSize;
-      const gridLng = Math.round(point.lng / gridSize) * gridSize;
-      const key = `${gridLat},${gridLng}`;
-
-      if (gridData.has(key)) {
-        const existing = gridData.get(key)!;
-        existing.value = Math.max(existing.value, point.value); // Use max value in grid cell
-        existing.count += 1;
-      } else {
-        gridData.set(key, {
-          lat: gridLat,
-          lng: gridLng,
-          value: point.value,
-          count: 1
-        });
-      }
-    });
-
     // Add grid cells to map
     let addedPoints = 0;
-    const maxPoints = 5000; // Limit for performance
-
-    gridData.forEach(({ lat, lng, value, count }) => {
-      if (addedPoints >= maxPoints) return;
 
-      // Skip very low reflectivity values to reduce clutter
-      if (value < -10) return;
+    radarData.forEach(({ lat, lng, value }) => {
+      // Values the palette doesn't colour (clutter, "no precipitation") are left off
+      const color = paletteColor(activePalette, value);
+      if (!color) return;
 
-      const color = getRadarColor(value);
-      const radius = Math.max(2, Math.min(8, value / 10 + 3)); // Size based on intensity
+      // Size based on intensity
+      const radius = activePalette.categorical ? 4 : 2 + paletteFraction(activePalette, value) * 6;
 
-      const circle = L.circleMarker([lat, lng], {
+      // Across the dateline, draw points next to the domain rather than a world away
+      const drawLng = referenceLon === undefined ? lng : unwrapLongitude(lng, referenceLon);
+      const circle = L.circleMarker([lat, drawLng], {
         radius: radius,
         fillColor: color,
         color: color,
@@ -144,13 +147,13 @@ export default function MapComponent({ radarData }: MapComponentProps) {
         fillOpacity: 0.6
       });
 
-      // Add popup with radar information
+      // Add popup with radar information; categorical values show their meaning
+      const category = activePalette.categorical ? activePalette.stops.find(stop => stop.color === color)?.label : undefined;
       circle.bindPopup(`
         <div>
-          <strong>Radar Reflectivity</strong><br>
-          Value: ${value.toFixed(1)} dBZ<br>
-          Location: ${lat.toFixed(3)}, ${lng.toFixed(3)}<br>
-          ${count > 1 ? `Grid points: ${count}` : ''}
+          <strong>${heading}</strong><br>
+          Value: ${category ?? formatParameterValue({ ...parameter, units: headingUnits }, value)}<br>
+          Location: ${lat.toFixed(3)}, ${lng.toFixed(3)}
         </div>
       `);
 
@@ -159,16 +162,7 @@ export default function MapComponent({ radarData }: MapComponentProps) {
     });
 
     console.log(`Rendered ${addedPoints} grid cells on map`);
-
-    // Fit map to radar data bounds if we have data
-    if (gridData.size > 0) {
-      const bounds = Array.from(gridData.values()).map(point => [point.lat, point.lng] as [number, number]);
-      if (bounds.length > 1) {
-        mapRef.current.fitBounds(bounds, { padding: [20, 20] });
-      }
-    }
-
-  }, [radarData]);
+  }, [radarData, parameter, activePalette, heading, headingUnits, referenceLon]);
 
   return (
     <div className="relative w-full h-full">
@@ -177,29 +171,15 @@ export default function MapComponent({ radarData }: MapComponentProps) {
       {/* Legend */}
       <div className="absolute top-4 right-4 bg-white/95 dark:bg-slate-800/95 backdrop-blur-sm p-4 rounded-xl shadow-lg border border-slate-200 dark:border-slate-700 z-1000">
         <h4 className="font-semibold text-sm mb-3 text-slate-800 dark:text-slate-200">
-          Radar Reflectivity (dBZ)
+          {heading}{headingUnits && ` (${headingUnits})`}
         </h4>
         <div className="space-y-2 text-xs">
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-3 rounded-sm border border-slate-300 dark:border-slate-600" style={{ backgroundColor: '#00FF00' }}></div>
-            <span className="text-slate-700 dark:text-slate-300">Light (5-15)</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-3 rounded-sm border border-slate-300 dark:border-slate-600" style={{ backgroundColor: '#FFFF00' }}></div>
-            <span className="text-slate-700 dark:text-slate-300">Moderate (15-25)</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-3 rounded-sm border border-slate-300 dark:border-slate-600" style={{ backgroundColor: '#FF6600' }}></div>
-            <span className="text-slate-700 dark:text-slate-300">Heavy (25-35)</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-3 rounded-sm border border-slate-300 dark:border-slate-600" style={{ backgroundColor: '#FF0000' }}></div>
-            <span className="text-slate-700 dark:text-slate-300">Intense (35-45)</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-4 h-3 rounded-sm border border-slate-300 dark:border-slate-600" style={{ backgroundColor: '#9900CC' }}></div>
-            <span className="text-slate-700 dark:text-slate-300">Extreme (45+)</span>
-          </div>
+          {activePalette.legend.map(({ color, label }) => (
+            <div key={label} className="flex items-center gap-2">
+              <div className="w-4 h-3 rounded-sm border border-slate-300 dark:border-slate-600" style={{ backgroundColor: color }}></div>
+              <span className="text-slate-700 dark:text-slate-300">{label}</span>
+            </div>
+          ))}
         </div>
         
         {/* Data count indicator */}
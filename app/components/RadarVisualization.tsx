@@ -1,14 +1,14 @@
 'use client';
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useMemo, useRef } from 'react';
 import dynamic from 'next/dynamic';
-import { SimpleGribProcessor } from '../utils/gribProcessor';
-
-interface RadarDataPoint {
-  lat: number;
-  lng: number;
-  value: number;
-}
+import { GribDecodeOptions, GribDecodeProgress, GribDecodeStage, GribField, SimpleGribProcessor } from '../utils/gribProcessor';
+import { decodeGribInWorker } from '../utils/gribWorkerClient';
+import { DEFAULT_DOMAIN, MRMS_DOMAINS, MrmsDomain, MrmsDomainName } from '../lib/mrmsDomains';
+import { DEFAULT_PRODUCT, MRMS_PRODUCTS, MrmsProductGroup, MrmsProductName } from '../lib/mrmsProducts';
+import { GridReducer, gridStatistics, RadarGrid, ValueRange } from '../utils/radarGrid';
+import { RADAR_PALETTES, RadarPalette } from '../utils/radarPalettes';
+import { RADAR_SCENARIOS, RadarScenarioName } from '../utils/radarScenarios';
 
 interface RadarVisualizationProps {
   className?: string;
@@ -18,160 +18,273 @@ interface RadarVisualizationProps {
 const MapComponent = dynamic(() => import('./MapComponent'), {
   ssr: false,
   loading: () => <div className="w-full h-96 bg-gray-200 animate-pulse rounded-lg flex items-center justify-center">Loading map...</div>
-}) as React.ComponentType<{ radarData: RadarDataPoint[] }>;
+}) as React.ComponentType<{
+  grid: RadarGrid | null;
+  valueRange?: ValueRange;
+  reducer?: GridReducer;
+  palette?: RadarPalette;
+  label?: string;
+  units?: string;
+  domain?: MrmsDomain;
+}>;
+
+// Decode-time grid size limits; the map thins further for display
+const DETAIL_LEVELS: Record<string, { label: string; maxCells?: number }> = {
+  full: { label: 'Full resolution' },
+  regional: { label: 'Dense (≤ 2M cells)', maxCells: 2_000_000 },
+  national: { label: 'Overview (≤ 250k cells)', maxCells: 250_000 },
+};
+
+const STAGE_LABELS: Record<GribDecodeStage, string> = {
+  decompress: 'Decompressing',
+  parse: 'Reading messages',
+  unpack: 'Unpacking values',
+};
+
+const DEMO_FRAMES = 6;
+
+// Catalog products grouped for the product picker
+const PRODUCT_GROUPS = Object.values(MRMS_PRODUCTS).reduce<Partial<Record<MrmsProductGroup, MrmsProductName[]>>>((groups, product) => {
+  (groups[product.group] ??= []).push(product.name as MrmsProductName);
+  return groups;
+}, {});
+
+// Short label for the field picker, e.g. "Message 2.1 · 7000×3500 · Composite reflectivity (QC)"
+const describeField = (field: GribField): string => {
+  if (field.scenario) {
+    return `Frame ${field.scenario.frame + 1} · ${field.metadata.validTime.toISOString().slice(11, 16)} UTC · ${RADAR_SCENARIOS[field.scenario.scenario].label}`;
+  }
+  const position = `Message ${field.messageIndex + 1}.${field.fieldIndex + 1}`;
+  const size = `${field.header.nx}×${field.header.ny}`;
+  return `${position} · ${size} · ${field.grid.parameter.name}`;
+};
+
+// Rough size of the area the field covers, from its longitude span
+const coverageLabel = (field: GribField): string => {
+  const span = field.metadata.maxLon - field.metadata.minLon;
+  return span > 40 ? 'National' : span > 10 ? 'Regional' : 'Local';
+};
 
 export default function RadarVisualization({ className }: RadarVisualizationProps) {
-  const [radarData, setRadarData] = useState<RadarDataPoint[]>([]);
-  const [filteredRadarData, setFilteredRadarData] = useState<RadarDataPoint[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [lastUpdated, setLastUpdated] = useState<Date | null>(null);
+  const [gribFields, setGribFields] = useState<GribField[]>([]);
+  const [selectedFieldIndex, setSelectedFieldIndex] = useState(0);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const lastSourceRef = useRef<Blob | null>(null); // compressed bytes of the last file, for re-decoding
+  const loadControllerRef = useRef<AbortController | null>(null);
+  const [progress, setProgress] = useState<GribDecodeProgress | null>(null);
+  const [detailLevel, setDetailLevel] = useState('full');
+  const [reducer, setReducer] = useState<GridReducer>('max');
+  const [strictDecoding, setStrictDecoding] = useState(false);
+  const [scenario, setScenario] = useState<RadarScenarioName | ''>('');
+  const [scenarioSeed, setScenarioSeed] = useState(42);
+  const [product, setProduct] = useState<MrmsProductName>(DEFAULT_PRODUCT);
+  const [domain, setDomain] = useState<MrmsDomainName>(DEFAULT_DOMAIN);
+  const [loadedProduct, setLoadedProduct] = useState<MrmsProductName | null>(null); // null for uploads and demos
   
   // Filter controls
   const [minThreshold, setMinThreshold] = useState(-30);
   const [maxThreshold, setMaxThreshold] = useState(100);
   const [isFilterEnabled, setIsFilterEnabled] = useState(false);
 
-  // Filter radar data based on threshold values
-  useEffect(() => {
-    if (!isFilterEnabled) {
-      setFilteredRadarData(radarData);
-      return;
-    }
+  const selectedField = gribFields[selectedFieldIndex];
+  const radarGrid = selectedField?.grid ?? null;
+  const parameter = radarGrid?.parameter;
+  const productInfo = loadedProduct ? MRMS_PRODUCTS[loadedProduct] : null;
+  const units = productInfo?.units ?? (parameter ? parameter.units : 'dBZ');
+  const isReflectivity = units === 'dBZ';
+  const withUnits = (label: string) => (units ? `${label} (${units})` : label);
 
-    const filtered = radarData.filter(point => 
-      point.value >= minThreshold && point.value <= maxThreshold
-    );
-    setFilteredRadarData(filtered);
-  }, [radarData, minThreshold, maxThreshold, isFilterEnabled]);
+  // Only values inside the thresholds reach the map when filtering is on
+  const valueRange = useMemo<ValueRange | undefined>(
+    () => (isFilterEnabled ? { min: minThreshold, max: maxThreshold } : undefined),
+    [isFilterEnabled, minThreshold, maxThreshold]
+  );
 
-  // Calculate data statistics for better slider ranges
-  const dataStats = radarData.length > 0 ? {
-    min: Math.min(...radarData.map(p => p.value)),
-    max: Math.max(...radarData.map(p => p.value)),
-    count: radarData.length
-  } : { min: -30, max: 100, count: 0 };
+  // Calculate data statistics over the full grid for better slider ranges
+  const dataStats = useMemo(
+    () => (radarGrid ? gridStatistics(radarGrid) : { min: -30, max: 100, mean: 0, count: 0 }),
+    [radarGrid]
+  );
+  const filteredCount = useMemo(
+    () => (radarGrid && valueRange ? gridStatistics(radarGrid, valueRange).count : dataStats.count),
+    [radarGrid, valueRange, dataStats]
+  );
 
-  const downloadAndProcessRadarData = async () => {
+  // Cancel whatever is loading or decoding and start afresh
+  const beginLoad = (): AbortSignal => {
+    loadControllerRef.current?.abort();
+    const controller = new AbortController();
+    loadControllerRef.current = controller;
     setIsLoading(true);
     setError(null);
+    setProgress(null);
+    return controller.signal;
+  };
+
+  // Superseded loads leave the state to the load that replaced them
+  const endLoad = (signal: AbortSignal) => {
+    if (signal.aborted) return;
+    setIsLoading(false);
+    setProgress(null);
+  };
+
+  const downloadAndProcessRadarData = async (name = product, region = domain) => {
+    const signal = beginLoad();
+    setScenario('');
     
     try {
-      // Download the latest radar data
-      const response = await fetch('/api/download-latest-radar');
+      // Download the latest file of the chosen product and domain
+      const query = new URLSearchParams({ product: name, domain: region });
+      const response = await fetch(`/api/download-latest-radar?${query}`, { signal });
       
       if (!response.ok) {
         const errorData = await response.json();
-        throw new Error(errorData.error || `HTTP ${response.status}`);
+        const retryAfter = response.status === 429 ? response.headers.get('retry-after') : null;
+        throw new Error(`${errorData.error || `HTTP ${response.status}`}${retryAfter ? `, try again in ${retryAfter}s` : ''}`);
       }
 
-      const arrayBuffer = await response.arrayBuffer();
+      if (!response.body) {
+        throw new Error('Radar download returned no data');
+      }
       
-      // Process the GRIB2 data
-      await processGribData(arrayBuffer);
-      setLastUpdated(new Date());
+      // Decode the GRIB2 data while it downloads
+      const totalBytes = Number(response.headers.get('content-length')) || 0;
+      await processGribData(recordSource(response.body), totalBytes, signal, name);
       
     } catch (err) {
+      if (signal.aborted) return;
       setError(err instanceof Error ? err.message : 'Failed to download and process radar data');
     } finally {
-      setIsLoading(false);
+      endLoad(signal);
     }
   };
 
   const processFileUpload = async (file: File) => {
-    setIsLoading(true);
-    setError(null);
+    const signal = beginLoad();
+    setScenario('');
     
     try {
-      const arrayBuffer = await file.arrayBuffer();
-      await processGribData(arrayBuffer);
-      setLastUpdated(new Date());
+      lastSourceRef.current = file;
+      await processGribData(file.stream(), file.size, signal, null);
     } catch (err) {
+      if (signal.aborted) return;
       setError(err instanceof Error ? err.message : 'Failed to process uploaded file');
     } finally {
-      setIsLoading(false);
+      endLoad(signal);
     }
   };
 
-  const processGribData = async (arrayBuffer: ArrayBuffer) => {
+  // Keep a copy of the compressed bytes as they stream past
+  const recordSource = (stream: ReadableStream<Uint8Array<ArrayBuffer>>) => {
+    const parts: Blob[] = [];
+    return stream.pipeThrough(new TransformStream<Uint8Array<ArrayBuffer>, Uint8Array<ArrayBuffer>>({
+      transform(chunk, controller) {
+        parts.push(new Blob([chunk])); // copied now, before the worker takes the chunk
+        controller.enqueue(chunk);
+      },
+      flush() {
+        lastSourceRef.current = new Blob(parts);
+      },
+    }));
+  };
+
+  const processGribData = async (
+    stream: ReadableStream<Uint8Array>,
+    totalBytes: number,
+    signal: AbortSignal,
+    source: MrmsProductName | null,
+    level = detailLevel,
+    pooling = reducer,
+    strict = strictDecoding
+  ) => {
+    if (signal.aborted) return;
     try {
-      // Use our simplified GRIB processor
-      const processedData = await SimpleGribProcessor.processGribBuffer(arrayBuffer);
-      setRadarData(processedData);
-      console.log(`Processed ${processedData.length} radar data points`);
+      const options: GribDecodeOptions = { maxCells: DETAIL_LEVELS[level].maxCells, reducer: pooling, strict };
+
+      // Decode in a worker, chunk by chunk, so only the finished grid is ever held in full
+      const fields = await decodeGribInWorker(stream, options, { onProgress: setProgress, signal, totalBytes });
+      showFields(fields, source);
     } catch (err) {
+      if (signal.aborted) throw err;
+      // Never leave the previous file on screen as if it were this one
+      setGribFields([]);
       throw new Error(`Failed to process GRIB2 data: ${err}`);
     }
   };
 
-  const extractRadarDataPoints = (gribData: any): RadarDataPoint[] => {
-    const dataPoints: RadarDataPoint[] = [];
-    
+  // Default filter range: the product's when it came from the catalog, otherwise the parameter's
+  const resetThresholds = (field: GribField, source: MrmsProductName | null) => {
+    const range = source ? MRMS_PRODUCTS[source].range : field.grid.parameter.range;
+    setMinThreshold(range.min);
+    setMaxThreshold(range.max);
+  };
+
+  const showFields = (fields: GribField[], source: MrmsProductName | null) => {
+    setGribFields(fields);
+    setSelectedFieldIndex(0);
+    setLoadedProduct(source);
+    resetThresholds(fields[0], source);
+    console.log(`Processed ${fields.length} field(s), showing a ${fields[0].grid.width}x${fields[0].grid.height} grid`);
+  };
+
+  // Show a synthetic demo scenario instead of a file; the same seed always gives the same frames
+  const loadScenario = (name: RadarScenarioName | '', seed: number, level = detailLevel, pooling = reducer) => {
+    setScenario(name);
+    setScenarioSeed(seed);
+    if (!name) return;
+
+    const signal = beginLoad();
+    lastSourceRef.current = null;
     try {
-      // GRIB2 data structure varies, but typically has this format
-      if (!gribData || !gribData.data) {
-        throw new Error('Invalid GRIB2 data structure');
-      }
+      const options: GribDecodeOptions = { maxCells: DETAIL_LEVELS[level].maxCells, reducer: pooling };
+      showFields(SimpleGribProcessor.generateScenarioFields({ scenario: name, seed, frames: DEMO_FRAMES }, options), null);
+    } catch (err) {
+      setGribFields([]);
+      setError(err instanceof Error ? err.message : 'Failed to generate demo scenario');
+    } finally {
+      endLoad(signal);
+    }
+  };
 
-      const { data, header } = gribData;
-      
-      // Extract grid information
-      const nx = header?.nx || header?.Nx || 0; // number of points along x-axis
-      const ny = header?.ny || header?.Ny || 0; // number of points along y-axis
-      const la1 = header?.la1 || header?.latitudeOfFirstGridPoint || 0; // first latitude
-      const lo1 = header?.lo1 || header?.longitudeOfFirstGridPoint || 0; // first longitude
-      const la2 = header?.la2 || header?.latitudeOfLastGridPoint || 0; // last latitude
-      const lo2 = header?.lo2 || header?.longitudeOfLastGridPoint || 0; // last longitude
-      
-      if (nx === 0 || ny === 0) {
-        throw new Error('Invalid grid dimensions in GRIB2 data');
-      }
+  // Re-decode the last file (or regenerate the scenario) when the detail level, pooling or strictness changes
+  const changeDecodeOptions = async (level: string, pooling: GridReducer, strict: boolean) => {
+    setDetailLevel(level);
+    setReducer(pooling);
+    setStrictDecoding(strict);
+    const source = lastSourceRef.current;
+    if (!source) {
+      if (scenario) loadScenario(scenario, scenarioSeed, level, pooling);
+      return;
+    }
 
-      const latStep = (la2 - la1) / (ny - 1);
-      const lonStep = (lo2 - lo1) / (nx - 1);
-      
-      // Convert GRIB2 coordinate system (typically scaled by 1000000) to decimal degrees
-      const lat1 = la1 / 1000000;
-      const lon1 = lo1 / 1000000;
-      const latStepDeg = latStep / 1000000;
-      const lonStepDeg = lonStep / 1000000;
-      
-      // Process data values
-      for (let i = 0; i < data.length; i++) {
-        const value = data[i];
-        
-        // Skip missing or invalid values
-        if (value === null || value === undefined || isNaN(value)) {
-          continue;
-        }
-        
-        // Calculate lat/lng for this data point
-        const row = Math.floor(i / nx);
-        const col = i % nx;
-        
-        const lat = lat1 + (row * latStepDeg);
-        const lng = lon1 + (col * lonStepDeg);
-        
-        // Only include points with reasonable reflectivity values (typically -30 to 80 dBZ)
-        if (value >= -30 && value <= 80 && lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180) {
-          dataPoints.push({
-            lat,
-            lng,
-            value
-          });
-        }
-      }
-      
-      console.log(`Processed ${dataPoints.length} radar data points`);
-      return dataPoints;
-      
+    const signal = beginLoad();
+    try {
+      await processGribData(source.stream(), source.size, signal, loadedProduct, level, pooling, strict);
     } catch (err) {
-      console.error('Error extracting radar data:', err);
-      throw err;
+      if (signal.aborted) return;
+      setError(err instanceof Error ? err.message : 'Failed to process radar data');
+    } finally {
+      endLoad(signal);
     }
   };
 
+  const selectField = (index: number) => {
+    setSelectedFieldIndex(index);
+    resetThresholds(gribFields[index], loadedProduct);
+  };
+
+  const changeProduct = (name: MrmsProductName) => {
+    setProduct(name);
+    downloadAndProcessRadarData(name);
+  };
+
+  const changeDomain = (region: MrmsDomainName) => {
+    setDomain(region);
+    downloadAndProcessRadarData(product, region);
+  };
+
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
@@ -198,9 +311,43 @@ export default function RadarVisualization({ className }: RadarVisualizationProp
             </div>
             
             <div className="flex flex-col sm:flex-row gap-3">
+              <div className="bg-white/20 text-white px-3 py-2 rounded-lg backdrop-blur-sm border border-white/20 flex items-center">
+                <select
+                  aria-label="MRMS domain"
+                  value={domain}
+                  onChange={(e) => changeDomain(e.target.value as MrmsDomainName)}
+                  className="bg-transparent font-medium border-0 focus:outline-none"
+                >
+                  {Object.values(MRMS_DOMAINS).map(({ name, label }) => (
+                    <option key={name} value={name} className="text-slate-800">
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="bg-white/20 text-white px-3 py-2 rounded-lg backdrop-blur-sm border border-white/20 flex items-center">
+                <select
+                  aria-label="MRMS product"
+                  value={product}
+                  onChange={(e) => changeProduct(e.target.value as MrmsProductName)}
+                  title={MRMS_PRODUCTS[product].description}
+                  className="bg-transparent font-medium border-0 focus:outline-none"
+                >
+                  {Object.entries(PRODUCT_GROUPS).map(([group, names]) => (
+                    <optgroup key={group} label={group} className="text-slate-800">
+                      {names.map(name => (
+                        <option key={name} value={name} title={MRMS_PRODUCTS[name].description} className="text-slate-800">
+                          {MRMS_PRODUCTS[name].label}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+              </div>
+
               <button
-                onClick={downloadAndProcessRadarData}
-                disabled={isLoading}
+                onClick={() => downloadAndProcessRadarData()}
                 className="bg-white/20 hover:bg-white/30 disabled:bg-white/10 text-white px-6 py-2.5 rounded-lg transition-all duration-200 font-medium backdrop-blur-sm border border-white/20 flex items-center justify-center"
               >
                 {isLoading ? (
@@ -234,6 +381,30 @@ export default function RadarVisualization({ className }: RadarVisualizationProp
                   className="hidden"
                 />
               </label>
+
+              <div className="bg-white/20 text-white px-3 py-2 rounded-lg backdrop-blur-sm border border-white/20 flex items-center gap-2">
+                <select
+                  aria-label="Demo scenario"
+                  value={scenario}
+                  onChange={(e) => loadScenario(e.target.value as RadarScenarioName | '', scenarioSeed)}
+                  className="bg-transparent font-medium border-0 focus:outline-none"
+                >
+                  <option value="" className="text-slate-800">Demo scenario…</option>
+                  {Object.entries(RADAR_SCENARIOS).map(([key, { label, description }]) => (
+                    <option key={key} value={key} title={description} className="text-slate-800">{label}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 text-xs text-teal-100" title="Same seed, same storms">
+                  Seed
+                  <input
+                    type="number"
+                    min={0}
+                    value={scenarioSeed}
+                    onChange={(e) => loadScenario(scenario, Math.max(0, Math.floor(Number(e.target.value) || 0)))}
+                    className="w-16 bg-white/20 text-white rounded px-1 py-0.5 border-0"
+                  />
+                </label>
+              </div>
             </div>
           </div>
         </div>
@@ -245,36 +416,112 @@ export default function RadarVisualization({ className }: RadarVisualizationProp
               <div className="w-2 h-2 rounded-full bg-blue-500"></div>
               <span className="font-medium text-slate-700 dark:text-slate-300">Data Points:</span>
               <span className="bg-blue-100 dark:bg-blue-900/30 text-blue-800 dark:text-blue-300 px-2 py-1 rounded font-medium">
-                {isFilterEnabled ? filteredRadarData.length.toLocaleString() : radarData.length.toLocaleString()}
+                {filteredCount.toLocaleString()}
                 {isFilterEnabled && (
                   <span className="text-xs opacity-75 ml-1">
-                    / {radarData.length.toLocaleString()}
+                    / {dataStats.count.toLocaleString()}
                   </span>
                 )}
               </span>
             </div>
             
-            {lastUpdated && (
+            {gribFields.length > 1 && (
+              <div className="flex items-center gap-2">
+                <div className="w-2 h-2 rounded-full bg-purple-500"></div>
+                <label htmlFor="grib-field" className="font-medium text-slate-700 dark:text-slate-300">Field:</label>
+                <select
+                  id="grib-field"
+                  value={selectedFieldIndex}
+                  onChange={(e) => selectField(parseInt(e.target.value))}
+                  className="bg-purple-100 dark:bg-purple-900/30 text-purple-800 dark:text-purple-300 px-2 py-1 rounded font-medium border-0"
+                >
+                  {gribFields.map((field, index) => (
+                    <option key={index} value={index}>
+                      {describeField(field)}
+                    </option>
+                  ))}
+                </select>
+                <span className="text-xs text-slate-500 dark:text-slate-400">
+                  of {gribFields.length}
+                </span>
+              </div>
+            )}
+            
+            {selectedField && !selectedField.isSampleData && (
               <div className="flex items-center gap-2">
                 <div className="w-2 h-2 rounded-full bg-green-500 animate-pulse"></div>
-                <span className="font-medium text-slate-700 dark:text-slate-300">Updated:</span>
-                <span className="bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 px-2 py-1 rounded font-medium">
-                  {lastUpdated.toLocaleTimeString()}
+                <span className="font-medium text-slate-700 dark:text-slate-300">Valid:</span>
+                <span
+                  className="bg-green-100 dark:bg-green-900/30 text-green-800 dark:text-green-300 px-2 py-1 rounded font-medium"
+                  title={`Reference time ${selectedField.metadata.timestamp.toLocaleString()}`}
+                >
+                  {selectedField.metadata.validTime.toLocaleString()}
                 </span>
+                {selectedField.metadata.dataSource && (
+                  <span className="text-xs text-slate-500 dark:text-slate-400">
+                    {selectedField.metadata.dataSource}
+                  </span>
+                )}
               </div>
             )}
             
+            <div className="flex items-center gap-2">
+              <div className="w-2 h-2 rounded-full bg-teal-500"></div>
+              <label htmlFor="detail-level" className="font-medium text-slate-700 dark:text-slate-300">Detail:</label>
+              <select
+                id="detail-level"
+                value={detailLevel}
+                onChange={(e) => changeDecodeOptions(e.target.value, reducer, strictDecoding)}
+                disabled={isLoading}
+                className="bg-teal-100 dark:bg-teal-900/30 text-teal-800 dark:text-teal-300 px-2 py-1 rounded font-medium border-0"
+              >
+                {Object.entries(DETAIL_LEVELS).map(([key, { label }]) => (
+                  <option key={key} value={key}>{label}</option>
+                ))}
+              </select>
+              <select
+                aria-label="Downsampling"
+                value={reducer}
+                onChange={(e) => changeDecodeOptions(detailLevel, e.target.value as GridReducer, strictDecoding)}
+                disabled={isLoading}
+                className="bg-teal-100 dark:bg-teal-900/30 text-teal-800 dark:text-teal-300 px-2 py-1 rounded font-medium border-0"
+              >
+                <option value="max">Max pooling</option>
+                <option value="mean">Mean</option>
+                <option value="nearest">Nearest</option>
+              </select>
+              <label
+                className="flex items-center gap-1 text-slate-700 dark:text-slate-300 cursor-pointer"
+                title="Report decoding errors instead of showing demo data"
+              >
+                <input
+                  type="checkbox"
+                  checked={strictDecoding}
+                  onChange={(e) => changeDecodeOptions(detailLevel, reducer, e.target.checked)}
+                  disabled={isLoading}
+                  className="w-4 h-4"
+                />
+                Strict
+              </label>
+            </div>
+            
             {isLoading && (
               <div className="flex items-center gap-2">
                 <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-blue-500"></div>
-                <span className="text-blue-600 dark:text-blue-400 font-medium">Processing radar data...</span>
+                <span className="text-blue-600 dark:text-blue-400 font-medium">
+                  {progress
+                    ? `${STAGE_LABELS[progress.stage]}... ${progress.total
+                      ? `${Math.round((progress.loaded / progress.total) * 100)}%`
+                      : `${(progress.loaded / 1048576).toFixed(1)} MB`}`
+                    : 'Processing radar data...'}
+                </span>
               </div>
             )}
           </div>
         </div>
 
         {/* Interactive Filter Controls */}
-        {radarData.length > 0 && (
+        {dataStats.count > 0 && (
           <div className="bg-white dark:bg-slate-800 px-6 py-4 border-b border-slate-200 dark:border-slate-600">
             <div className="flex flex-col gap-4">
               {/* Filter Toggle */}
@@ -287,7 +534,7 @@ export default function RadarVisualization({ className }: RadarVisualizationProp
                     className="w-4 h-4 text-blue-600 bg-gray-100 border-gray-300 rounded focus:ring-blue-500 dark:focus:ring-blue-600 dark:ring-offset-gray-800 focus:ring-2 dark:bg-gray-700 dark:border-gray-600"
                   />
                   <span className="font-medium text-slate-700 dark:text-slate-300">
-                    Enable Reflectivity Filtering
+                    Enable {parameter?.name ?? 'Reflectivity'} Filtering
                   </span>
                 </label>
                 {isFilterEnabled && (
@@ -304,7 +551,7 @@ export default function RadarVisualization({ className }: RadarVisualizationProp
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
-                        Minimum dBZ
+                        Minimum {units}
                       </label>
                       <span className="text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 px-2 py-1 rounded font-mono">
                         {minThreshold.toFixed(1)}
@@ -336,7 +583,7 @@ export default function RadarVisualization({ className }: RadarVisualizationProp
                   <div className="space-y-2">
                     <div className="flex items-center justify-between">
                       <label className="text-sm font-medium text-slate-700 dark:text-slate-300">
-                        Maximum dBZ
+                        Maximum {units}
                       </label>
                       <span className="text-sm bg-slate-100 dark:bg-slate-700 text-slate-700 dark:text-slate-300 px-2 py-1 rounded font-mono">
                         {maxThreshold.toFixed(1)}
@@ -366,8 +613,8 @@ export default function RadarVisualization({ className }: RadarVisualizationProp
                 </div>
               )}
 
-              {/* Preset Buttons */}
-              {isFilterEnabled && (
+              {/* Preset Buttons (reflectivity categories only make sense in dBZ) */}
+              {isFilterEnabled && isReflectivity && (
                 <div className="flex flex-wrap gap-2">
                   <button
                     onClick={() => { setMinThreshold(-10); setMaxThreshold(100); }}
@@ -405,6 +652,40 @@ export default function RadarVisualization({ className }: RadarVisualizationProp
           </div>
         )}
 
+        {/* Demo Data Warning */}
+        {selectedField?.isSampleData && (
+          <div className="mx-6 mt-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 rounded-lg p-4">
+            <div className="flex items-start">
+              <svg className="w-5 h-5 text-amber-500 mt-0.5 mr-3 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 9v2m0 4h.01M5.07 19h13.86c1.54 0 2.5-1.67 1.73-3L13.73 4c-.77-1.33-2.69-1.33-3.46 0L3.34 16c-.77 1.33.19 3 1.73 3z" />
+              </svg>
+              <div>
+                <h3 className="text-amber-800 dark:text-amber-300 font-semibold mb-1">Demo Data - Not Real Radar</h3>
+                <p className="text-amber-700 dark:text-amber-400 text-sm">
+                  {selectedField.fallbackReason || !selectedField.scenario
+                    ? 'The file could not be decoded, so synthetic sample storms are shown instead.'
+                    : `Synthetic ${RADAR_SCENARIOS[selectedField.scenario.scenario].label.toLowerCase()} scenario, seed ${selectedField.scenario.seed}, frame ${selectedField.scenario.frame + 1}.`}
+                  {' '}Do not use this display for briefings.
+                </p>
+                {selectedField.fallbackReason && (
+                  <p className="text-amber-700 dark:text-amber-400 text-xs font-mono mt-2">{selectedField.fallbackReason}</p>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
+        {/* Partial Decode Warning */}
+        {selectedField?.incompleteReason && (
+          <div className="mx-6 mt-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-300 dark:border-amber-700 rounded-lg p-4">
+            <h3 className="text-amber-800 dark:text-amber-300 font-semibold mb-1">File Only Partly Decoded</h3>
+            <p className="text-amber-700 dark:text-amber-400 text-sm">
+              Decoding stopped early, so {gribFields.length} field(s) are shown and any after them are missing.
+            </p>
+            <p className="text-amber-700 dark:text-amber-400 text-xs font-mono mt-2">{selectedField.incompleteReason}</p>
+          </div>
+        )}
+
         {/* Error Display */}
         {error && (
           <div className="mx-6 mt-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg p-4">
@@ -422,34 +703,47 @@ export default function RadarVisualization({ className }: RadarVisualizationProp
 
         {/* Map Container */}
         <div className="h-[600px] relative bg-slate-100 dark:bg-slate-900">
-          <MapComponent radarData={filteredRadarData} />
+          <MapComponent
+            grid={radarGrid}
+            valueRange={valueRange}
+            reducer={reducer}
+            palette={productInfo ? RADAR_PALETTES[productInfo.palette] : undefined}
+            label={productInfo?.label}
+            units={productInfo?.units}
+            domain={MRMS_DOMAINS[domain]}
+          />
+          {selectedField?.isSampleData && (
+            <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-amber-500 text-white px-4 py-1.5 rounded-full shadow-lg font-bold text-sm tracking-wide z-1000 pointer-events-none">
+              DEMO DATA - NOT REAL RADAR
+            </div>
+          )}
         </div>
 
         {/* Statistics */}
-        {radarData.length > 0 && (
+        {selectedField && dataStats.count > 0 && (
           <div className="bg-slate-50 dark:bg-slate-700/50 px-6 py-4 border-t border-slate-200 dark:border-slate-600">
             <div className="grid grid-cols-1 sm:grid-cols-4 gap-4">
               <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
                 <div className="text-2xl font-bold text-blue-600 dark:text-blue-400">
-                  {Math.min(...radarData.map(d => d.value)).toFixed(1)}
+                  {dataStats.min.toFixed(1)}
                 </div>
-                <div className="text-sm text-slate-500 dark:text-slate-400">Min Intensity (dBZ)</div>
+                <div className="text-sm text-slate-500 dark:text-slate-400">{withUnits('Min Intensity')}</div>
               </div>
               <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
                 <div className="text-2xl font-bold text-red-600 dark:text-red-400">
-                  {Math.max(...radarData.map(d => d.value)).toFixed(1)}
+                  {dataStats.max.toFixed(1)}
                 </div>
-                <div className="text-sm text-slate-500 dark:text-slate-400">Max Intensity (dBZ)</div>
+                <div className="text-sm text-slate-500 dark:text-slate-400">{withUnits('Max Intensity')}</div>
               </div>
               <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
                 <div className="text-2xl font-bold text-green-600 dark:text-green-400">
-                  {(radarData.reduce((sum, d) => sum + d.value, 0) / radarData.length).toFixed(1)}
+                  {dataStats.mean.toFixed(1)}
                 </div>
-                <div className="text-sm text-slate-500 dark:text-slate-400">Average (dBZ)</div>
+                <div className="text-sm text-slate-500 dark:text-slate-400">{withUnits('Average')}</div>
               </div>
               <div className="bg-white dark:bg-slate-800 rounded-lg p-4 border border-slate-200 dark:border-slate-600">
                 <div className="text-2xl font-bold text-purple-600 dark:text-purple-400">
-                  {radarData.length > 5000 ? 'National' : radarData.length > 1000 ? 'Regional' : 'Local'}
+                  {coverageLabel(selectedField)}
                 </div>
                 <div className="text-sm text-slate-500 dark:text-slate-400">Coverage</div>
               </div>
@@ -0,0 +1,144 @@
+// Who may call the API and how often, checked in proxy.ts before any route
+// runs. Requests with an API key (X-API-Key or Authorization: Bearer) count
+// against the key's limits; the dashboard and other requests without one count
+// against their IP address under the lower anonymous limits. Browsers may call
+// the API from the server's own pages and from API_ALLOWED_ORIGINS only.
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiKeyStore } from './apiKeys';
+import { AccessConfig, ConfigError, getRadarConfig, RateLimit } from './config';
+import { RateDecision, RateLimiter } from './rateLimit';
+import { REMOTE_ADDRESS_HEADER } from './remoteAddress';
+
+const ALLOWED_METHODS = 'GET, HEAD, POST';
+const ALLOWED_HEADERS = 'Content-Type, Range, If-None-Match, If-Modified-Since, If-Range, Authorization, X-API-Key';
+const EXPOSED_HEADERS = [
+  'ETag', 'Content-Range', 'Content-Disposition', 'X-Cache', 'X-Decode-Cache', 'X-MRMS-Valid-Time', 'X-Grid-Width', 'X-Grid-Height',
+  'Retry-After', 'X-RateLimit-Limit', 'X-RateLimit-Remaining', 'X-Quota-Remaining',
+].join(', ');
+
+const limiter = new RateLimiter();
+let keyStore: ApiKeyStore | null = null;
+
+export async function guardApiRequest(request: NextRequest): Promise<NextResponse> {
+  let config: AccessConfig;
+  try {
+    config = getRadarConfig().access;
+  } catch (error) {
+    if (!(error instanceof ConfigError)) throw error;
+    return NextResponse.json({ error: 'Server is misconfigured', problems: error.problems }, { status: 503 });
+  }
+
+  const cors = corsHeaders(request, config.allowedOrigins);
+  if (!cors) {
+    return NextResponse.json({ error: `Origin ${request.headers.get('origin')} is not allowed` }, { status: 403 });
+  }
+  if (request.method === 'OPTIONS') {
+    return new NextResponse(null, { status: 204, headers: cors });
+  }
+
+  const key = apiKey(request.headers);
+  let client: string;
+  let limits: RateLimit;
+  if (key) {
+    keyStore ??= new ApiKeyStore(config.keysFile);
+    const record = await keyStore.verify(key);
+    if (!record) {
+      return NextResponse.json({ error: 'Invalid or revoked API key' }, { status: 401, headers: cors });
+    }
+    client = `key:${record.id}`;
+    limits = { ...config.keyDefaults, ...record.limits };
+  } else if (config.anonymous) {
+    const address = clientAddress(request.headers, config.trustedProxyHops);
+    if (!address) {
+      // Without an address every such client would share one limit, so refuse them instead
+      console.error(
+        `❌ No client address for an anonymous request to ${request.nextUrl.pathname}; refused. ` +
+          `The server should set ${REMOTE_ADDRESS_HEADER} (see instrumentation.ts) or TRUSTED_PROXY_HOPS should match the proxies in front of it`
+      );
+      return NextResponse.json(
+        { error: 'The client address could not be determined; send an API key' },
+        { status: 503, headers: cors }
+      );
+    }
+    client = `ip:${address}`;
+    limits = config.anonymous;
+  } else {
+    return NextResponse.json(
+      { error: 'An API key is required, sent as X-API-Key or Authorization: Bearer' },
+      { status: 401, headers: { ...cors, 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  const decision = limiter.take(client, limits);
+  const headers = { ...cors, ...rateLimitHeaders(decision) };
+  if (!decision.allowed) {
+    console.warn(`🚦 ${client} refused on ${request.nextUrl.pathname}: ${decision.reason} limit, retry in ${decision.retryAfter}s`);
+    return NextResponse.json(
+      {
+        error: decision.reason === 'quota' ? 'Daily quota used up' : 'Too many requests',
+        retryAfter: decision.retryAfter,
+      },
+      { status: 429, headers: { ...headers, 'Retry-After': decision.retryAfter.toString() } }
+    );
+  }
+
+  return NextResponse.next({ headers });
+}
+
+/**
+ * CORS headers for the request, or null when it comes from a page on an
+ * origin that isn't allowed. Requests without Origin, or from the server's
+ * own host, need none.
+ */
+function corsHeaders(request: NextRequest, allowedOrigins: string[] | '*'): Record<string, string> | null {
+  const origin = request.headers.get('origin');
+  if (!origin) return {};
+
+  const host = request.headers.get('x-forwarded-host') ?? request.headers.get('host');
+  let sameHost = false;
+  try {
+    sameHost = new URL(origin).host === host;
+  } catch {
+    return null; // "null" and other opaque origins
+  }
+  if (sameHost) return {};
+  if (allowedOrigins !== '*' && !allowedOrigins.includes(origin)) return null;
+
+  return {
+    'Access-Control-Allow-Origin': allowedOrigins === '*' ? '*' : origin,
+    'Access-Control-Allow-Methods': ALLOWED_METHODS,
+    'Access-Control-Allow-Headers': ALLOWED_HEADERS,
+    'Access-Control-Expose-Headers': EXPOSED_HEADERS,
+    'Access-Control-Max-Age': '600',
+    'Vary': 'Origin',
+  };
+}
+
+function apiKey(headers: Headers): string | null {
+  const bearer = /^Bearer\s+(\S+)$/i.exec(headers.get('authorization') ?? '');
+  return headers.get('x-api-key')?.trim() || bearer?.[1] || null;
+}
+
+/**
+ * The client's address. With no trusted proxies it is the connection's own and
+ * X-Forwarded-For is ignored; behind n of them it is the entry n from the end,
+ * which the outermost trusted proxy added. Entries before that come from the
+ * client and can be made up. Null when neither is there.
+ */
+function clientAddress(headers: Headers, trustedProxyHops: number): string | null {
+  if (trustedProxyHops > 0) {
+    const forwarded = headers.get('x-forwarded-for')?.split(',').map(entry => entry.trim()).filter(Boolean) ?? [];
+    const entry = forwarded.at(-trustedProxyHops);
+    if (entry) return entry;
+  }
+  return headers.get(REMOTE_ADDRESS_HEADER);
+}
+
+function rateLimitHeaders(decision: RateDecision): Record<string, string> {
+  const headers: Record<string, string> = {
+    'X-RateLimit-Limit': decision.limit.toString(),
+    'X-RateLimit-Remaining': decision.remaining.toString(),
+  };
+  if (decision.quotaRemaining !== null) headers['X-Quota-Remaining'] = decision.quotaRemaining.toString();
+  return headers;
+}
@@ -0,0 +1,94 @@
+// API keys, kept in a JSON file on this server (API_KEYS_FILE). Only a hash of
+// each key is stored; the key itself is shown once, when it is issued. The
+// file is read again whenever it changes, so keys issued or revoked with
+// `npm run api-keys` apply without a restart.
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { mkdir, readFile, rename, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { RateLimit } from './config';
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  hash: string; // sha256 of the key, hex
+  createdAt: string;
+  revokedAt: string | null;
+  limits?: Partial<RateLimit>; // overrides of the API_KEY_* defaults
+}
+
+interface ApiKeyFile {
+  keys: ApiKeyRecord[];
+}
+
+const KEY_PREFIX = 'rvk';
+
+export class ApiKeyStore {
+  private records: ApiKeyRecord[] = [];
+  private modifiedAt = -1;
+
+  constructor(private readonly file: string) {}
+
+  async list(): Promise<ApiKeyRecord[]> {
+    await this.load();
+    return [...this.records];
+  }
+
+  /**
+   * Issue a key. The returned key is the only copy; the store keeps its hash.
+   */
+  async create(name: string, limits?: Partial<RateLimit>): Promise<{ key: string; record: ApiKeyRecord }> {
+    await this.load();
+    const id = randomBytes(4).toString('hex');
+    const key = `${KEY_PREFIX}_${id}_${randomBytes(24).toString('base64url')}`;
+    const record: ApiKeyRecord = { id, name, hash: hashKey(key), createdAt: new Date().toISOString(), revokedAt: null };
+    if (limits && Object.keys(limits).length > 0) record.limits = limits;
+
+    this.records.push(record);
+    await this.save();
+    return { key, record };
+  }
+
+  // Revoke a key by id; false when there is no such key
+  async revoke(id: string): Promise<boolean> {
+    await this.load();
+    const record = this.records.find(candidate => candidate.id === id);
+    if (!record) return false;
+    record.revokedAt ??= new Date().toISOString();
+    await this.save();
+    return true;
+  }
+
+  // The record of a key that is issued and not revoked, else null
+  async verify(key: string): Promise<ApiKeyRecord | null> {
+    const match = new RegExp(`^${KEY_PREFIX}_([0-9a-f]{8})_`).exec(key);
+    if (!match) return null;
+
+    await this.load();
+    const record = this.records.find(candidate => candidate.id === match[1]);
+    if (!record || record.revokedAt) return null;
+    const expected = Buffer.from(record.hash, 'hex');
+    const actual = Buffer.from(hashKey(key), 'hex');
+    return expected.length === actual.length && timingSafeEqual(expected, actual) ? record : null;
+  }
+
+  private async load() {
+    const info = await stat(this.file).catch(() => null);
+    const modifiedAt = info?.mtimeMs ?? 0;
+    if (modifiedAt === this.modifiedAt) return;
+
+    this.records = info ? ((JSON.parse(await readFile(this.file, 'utf8')) as ApiKeyFile).keys ?? []) : [];
+    this.modifiedAt = modifiedAt;
+  }
+
+  private async save() {
+    await mkdir(path.dirname(this.file), { recursive: true });
+    const data: ApiKeyFile = { keys: this.records };
+    await writeFile(`${this.file}.part`, JSON.stringify(data, null, 2), { mode: 0o600 });
+    await rename(`${this.file}.part`, this.file);
+    this.modifiedAt = (await stat(this.file)).mtimeMs;
+  }
+}
+
+function hashKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
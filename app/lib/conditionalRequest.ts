@@ -0,0 +1,57 @@
+// Conditional and byte-range request handling (RFC 9110) for routes that
+// serve a whole file from memory.
+
+export interface ByteRange {
+  start: number;
+  end: number; // inclusive
+}
+
+/**
+ * Whether a GET or HEAD can be answered with 304. If-None-Match wins over
+ * If-Modified-Since when both are sent; ETags compare weakly.
+ */
+export function isNotModified(request: Headers, etag: string, lastModified: string | null): boolean {
+  const ifNoneMatch = request.get('if-none-match');
+  if (ifNoneMatch !== null) {
+    return ifNoneMatch.trim() === '*' || ifNoneMatch.split(',').some(tag => weakTag(tag) === weakTag(etag));
+  }
+
+  const ifModifiedSince = request.get('if-modified-since');
+  if (ifModifiedSince === null || !lastModified) return false;
+  const since = Date.parse(ifModifiedSince);
+  const modified = Date.parse(lastModified);
+  return !Number.isNaN(since) && !Number.isNaN(modified) && modified <= since;
+}
+
+/**
+ * The byte range to send for a body of `size` bytes: null for the whole body
+ * (no Range, an If-Range that no longer matches, or a range form we don't
+ * serve, such as several ranges at once), 'unsatisfiable' for a 416.
+ */
+export function requestedRange(request: Headers, size: number, etag: string, lastModified: string | null): ByteRange | 'unsatisfiable' | null {
+  const range = request.get('range');
+  if (!range) return null;
+
+  const ifRange = request.get('if-range')?.trim();
+  if (ifRange && ifRange !== etag && ifRange !== lastModified) return null;
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+  if (!match || (match[1] === '' && match[2] === '')) return null;
+
+  if (match[1] === '') {
+    // Suffix range: the last n bytes
+    const length = Number(match[2]);
+    if (length === 0 || size === 0) return 'unsatisfiable';
+    return { start: Math.max(0, size - length), end: size - 1 };
+  }
+
+  const start = Number(match[1]);
+  const end = match[2] === '' ? size - 1 : Math.min(Number(match[2]), size - 1);
+  if (start >= size) return 'unsatisfiable';
+  if (end < start) return null;
+  return { start, end };
+}
+
+function weakTag(tag: string): string {
+  return tag.trim().replace(/^W\//, '');
+}
@@ -0,0 +1,230 @@
+// Server configuration from environment variables, checked once on first use.
+//
+//   MRMS_SOURCE            http (default), directory or fixture
+//   MRMS_BASE_URL          root of the HTTP feed (default https://mrms.ncep.noaa.gov/2D/)
+//   MRMS_DIRECTORY         local mirror laid out like the feed, for MRMS_SOURCE=directory
+//   MRMS_FIXTURE_SCENARIO  demo scenario the fixture files show (default squall-line)
+//   MRMS_FIXTURE_SEED      its seed (default 42)
+//   MRMS_FIXTURE_FRAMES    how many timestamped files each product has (default 6)
+//   RADAR_CACHE_MAX_MB     in-memory cache size (default 256)
+//   RADAR_CACHE_DIR        directory the cache also writes to, off by default
+//   UPLOAD_MAX_MB          largest GRIB2 file the inventory and cross-check routes accept (default 64)
+//   INGEST_DIR             frame archive; setting it turns the background ingest on
+//   INGEST_PRODUCTS        comma-separated products to collect (default ReflectivityAtLowestAltitude)
+//   INGEST_DOMAINS         comma-separated domains to collect them for (default CONUS)
+//   INGEST_INTERVAL_SECONDS  time between polls (default 120)
+//   INGEST_MAX_FRAMES      frames kept per product and domain (default 30)
+//   INGEST_MAX_AGE_HOURS   frames older than this before the newest are dropped, 0 to keep them (default 24)
+//   API_KEYS_FILE          where issued API keys are stored (default data/api-keys.json)
+//   API_ALLOWED_ORIGINS    comma-separated origins other sites may call the API from, * for any (default none)
+//   API_ANON_RATE_PER_MINUTE, API_ANON_BURST, API_ANON_DAILY_QUOTA
+//                          limits per IP address without a key (default 30, 20, 1000; a rate of 0 requires a key)
+//   API_KEY_RATE_PER_MINUTE, API_KEY_BURST, API_KEY_DAILY_QUOTA
+//                          limits per key unless the key sets its own (default 300, 100, 50000; a quota of 0 is unlimited)
+//   TRUSTED_PROXY_HOPS     reverse proxies in front of the server whose X-Forwarded-For entries are believed (default 0)
+import { statSync } from 'fs';
+import path from 'path';
+import { RADAR_SCENARIOS, RadarScenarioName } from '../utils/radarScenarios';
+import { DEFAULT_DOMAIN, isMrmsDomainName, MRMS_DOMAINS, MrmsDomainName } from './mrmsDomains';
+import { DEFAULT_PRODUCT, isMrmsProductName, MRMS_PRODUCTS, MrmsProductName } from './mrmsProducts';
+
+export const MRMS_SOURCE_KINDS = ['http', 'directory', 'fixture'] as const;
+
+export type MrmsSourceKind = (typeof MRMS_SOURCE_KINDS)[number];
+
+export type MrmsSourceConfig =
+  | { kind: 'http'; baseUrl: string }
+  | { kind: 'directory'; directory: string }
+  | { kind: 'fixture'; scenario: RadarScenarioName; seed: number; frames: number };
+
+export interface IngestTarget {
+  product: MrmsProductName;
+  domain: MrmsDomainName;
+}
+
+export interface IngestConfig {
+  directory: string;
+  targets: IngestTarget[];
+  intervalMs: number;
+  maxFrames: number;
+  maxAgeMs: number; // 0 for no age limit
+}
+
+// A token bucket refilled at perMinute, holding at most burst, and a count of requests per UTC day
+export interface RateLimit {
+  perMinute: number;
+  burst: number;
+  daily: number; // 0 for no daily quota
+}
+
+export interface AccessConfig {
+  keysFile: string;
+  allowedOrigins: string[] | '*'; // besides the server's own
+  anonymous: RateLimit | null; // null when every request needs a key
+  keyDefaults: RateLimit;
+  trustedProxyHops: number; // 0 to take the connection's address as the client's
+}
+
+export interface RadarConfig {
+  source: MrmsSourceConfig;
+  cache: { maxBytes: number; directory: string | null };
+  upload: { maxBytes: number };
+  ingest: IngestConfig | null; // null when INGEST_DIR isn't set
+  access: AccessConfig;
+}
+
+export const DEFAULT_MRMS_BASE_URL = 'https://mrms.ncep.noaa.gov/2D/';
+
+export class ConfigError extends Error {
+  readonly problems: string[];
+
+  constructor(problems: string[]) {
+    super(`Invalid configuration: ${problems.join('; ')}`);
+    this.name = 'ConfigError';
+    this.problems = problems;
+  }
+}
+
+/**
+ * Read and check the configuration, reporting every problem at once.
+ */
+export function loadRadarConfig(env: Record<string, string | undefined> = process.env): RadarConfig {
+  const problems: string[] = [];
+  const value = (name: string) => env[name]?.trim() || undefined;
+
+  const integer = (name: string, fallback: number, min: number): number => {
+    const text = value(name);
+    if (text === undefined) return fallback;
+    const number = Number(text);
+    if (!Number.isInteger(number) || number < min) {
+      problems.push(`${name} must be a whole number of at least ${min}, got "${text}"`);
+      return fallback;
+    }
+    return number;
+  };
+
+  const kind = value('MRMS_SOURCE') ?? 'http';
+  let source: MrmsSourceConfig | null = null;
+  switch (kind) {
+    case 'http': {
+      const baseUrl = value('MRMS_BASE_URL') ?? DEFAULT_MRMS_BASE_URL;
+      let url: URL | null = null;
+      try {
+        url = new URL(baseUrl);
+      } catch {
+        // reported below
+      }
+      if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+        problems.push(`MRMS_BASE_URL must be an http(s) URL, got "${baseUrl}"`);
+      } else {
+        source = { kind, baseUrl: url.href.endsWith('/') ? url.href : `${url.href}/` };
+      }
+      break;
+    }
+    case 'directory': {
+      const directory = value('MRMS_DIRECTORY');
+      if (!directory) {
+        problems.push('MRMS_DIRECTORY is required when MRMS_SOURCE is directory');
+      } else if (!isDirectory(directory)) {
+        problems.push(`MRMS_DIRECTORY (${directory}) is not a directory`);
+      } else {
+        source = { kind, directory: path.resolve(directory) };
+      }
+      break;
+    }
+    case 'fixture': {
+      const scenario = value('MRMS_FIXTURE_SCENARIO') ?? 'squall-line';
+      if (!Object.prototype.hasOwnProperty.call(RADAR_SCENARIOS, scenario)) {
+        problems.push(`MRMS_FIXTURE_SCENARIO must be one of ${Object.keys(RADAR_SCENARIOS).join(', ')}, got "${scenario}"`);
+      } else {
+        source = {
+          kind,
+          scenario: scenario as RadarScenarioName,
+          seed: integer('MRMS_FIXTURE_SEED', 42, 0),
+          frames: integer('MRMS_FIXTURE_FRAMES', 6, 1),
+        };
+      }
+      break;
+    }
+    default:
+      problems.push(`MRMS_SOURCE must be one of ${MRMS_SOURCE_KINDS.join(', ')}, got "${kind}"`);
+  }
+
+  const cacheDirectory = value('RADAR_CACHE_DIR');
+  const cache = {
+    maxBytes: integer('RADAR_CACHE_MAX_MB', 256, 1) * 1024 * 1024,
+    directory: cacheDirectory ? path.resolve(cacheDirectory) : null,
+  };
+
+  const upload = { maxBytes: integer('UPLOAD_MAX_MB', 64, 1) * 1024 * 1024 };
+
+  const list = <T extends string>(name: string, fallback: T, valid: (item: string) => item is T, allowed: string[]): T[] => {
+    const items = (value(name) ?? fallback).split(',').map(item => item.trim()).filter(Boolean);
+    const unknown = items.filter(item => !valid(item));
+    if (unknown.length > 0) {
+      problems.push(`${name} has unknown entries ${unknown.join(', ')}; use ${allowed.join(', ')}`);
+    }
+    return items.filter(valid);
+  };
+
+  const ingestDirectory = value('INGEST_DIR');
+  let ingest: IngestConfig | null = null;
+  if (ingestDirectory) {
+    const products = list('INGEST_PRODUCTS', DEFAULT_PRODUCT, isMrmsProductName, Object.keys(MRMS_PRODUCTS));
+    const domains = list('INGEST_DOMAINS', DEFAULT_DOMAIN, isMrmsDomainName, Object.keys(MRMS_DOMAINS));
+    ingest = {
+      directory: path.resolve(ingestDirectory),
+      targets: domains.flatMap(domain => products.map(product => ({ product, domain }))),
+      intervalMs: integer('INGEST_INTERVAL_SECONDS', 120, 10) * 1000,
+      maxFrames: integer('INGEST_MAX_FRAMES', 30, 1),
+      maxAgeMs: integer('INGEST_MAX_AGE_HOURS', 24, 0) * 3600000,
+    };
+  }
+
+  const origins = (value('API_ALLOWED_ORIGINS') ?? '').split(',').map(origin => origin.trim()).filter(Boolean);
+  const allowedOrigins: string[] = [];
+  for (const origin of origins.filter(origin => origin !== '*')) {
+    try {
+      allowedOrigins.push(new URL(origin).origin);
+    } catch {
+      problems.push(`API_ALLOWED_ORIGINS entries must be origins such as https://example.com, got "${origin}"`);
+    }
+  }
+  const anonymous: RateLimit = {
+    perMinute: integer('API_ANON_RATE_PER_MINUTE', 30, 0),
+    burst: integer('API_ANON_BURST', 20, 1),
+    daily: integer('API_ANON_DAILY_QUOTA', 1000, 0),
+  };
+  const access: AccessConfig = {
+    keysFile: path.resolve(value('API_KEYS_FILE') ?? 'data/api-keys.json'),
+    allowedOrigins: origins.includes('*') ? '*' : allowedOrigins,
+    anonymous: anonymous.perMinute > 0 ? anonymous : null,
+    keyDefaults: {
+      perMinute: integer('API_KEY_RATE_PER_MINUTE', 300, 1),
+      burst: integer('API_KEY_BURST', 100, 1),
+      daily: integer('API_KEY_DAILY_QUOTA', 50000, 0),
+    },
+    trustedProxyHops: integer('TRUSTED_PROXY_HOPS', 0, 0),
+  };
+
+  if (problems.length > 0 || !source) {
+    throw new ConfigError(problems);
+  }
+  return { source, cache, upload, ingest, access };
+}
+
+let current: RadarConfig | null = null;
+
+// The configuration of this server process
+export function getRadarConfig(): RadarConfig {
+  current ??= loadRadarConfig();
+  return current;
+}
+
+function isDirectory(directory: string): boolean {
+  try {
+    return statSync(directory).isDirectory();
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,161 @@
+// grib2json as a second, server-only decoder. It shells out to the Java
+// grib2json tool, which reads files from disk and doesn't understand gzip.
+import { spawn } from 'child_process';
+import type { Grib2JsonRecord } from 'grib2json';
+import { constants } from 'fs';
+import { access, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { delimiter, join } from 'path';
+import { promisify } from 'util';
+import { gunzip } from 'zlib';
+import { GribDecodeError, GribFormatError, GribUnsupportedError } from '../utils/gribErrors';
+import { readGribInventory } from '../utils/gribInventory';
+import { GribDecodeOptions, GribField, SimpleGribProcessor } from '../utils/gribProcessor';
+import { createLatLonGridDefinition } from '../utils/gribProjection';
+
+export type GribBackend = 'native' | 'grib2json';
+
+export const GRIB_BACKENDS: GribBackend[] = ['native', 'grib2json'];
+
+// The launcher couldn't be found or started; not a problem with the file
+export class Grib2JsonUnavailableError extends Error {
+  constructor(message: string, options?: ErrorOptions) {
+    super(message, options);
+    this.name = 'Grib2JsonUnavailableError';
+  }
+}
+
+/**
+ * Decode every field in a (possibly gzipped) GRIB2 file with grib2json,
+ * into the same fields SimpleGribProcessor returns.
+ */
+export async function decodeWithGrib2Json(file: Uint8Array, options: GribDecodeOptions = {}): Promise<GribField[]> {
+  const bytes = file.length >= 2 && file[0] === 0x1f && file[1] === 0x8b ? await promisify(gunzip)(file) : file;
+  const directory = await mkdtemp(join(tmpdir(), 'grib2json-'));
+
+  try {
+    const path = join(directory, 'input.grib2');
+    await writeFile(path, bytes);
+    const records = await runGrib2Json(path);
+    console.log(`🧾 grib2json returned ${records.length} field(s)`);
+    const units = forecastTimeUnits(bytes);
+    return records.map((record, index) => SimpleGribProcessor.buildField(recordToRawField(record, index, units[index]), options));
+  } finally {
+    await rm(directory, { recursive: true, force: true });
+  }
+}
+
+// Runs the launcher the way the grib2json wrapper does, but looks it up on every
+// call and listens for spawn errors: the wrapper caches a failed lookup as a
+// null path and then throws from a callback where nothing can catch it.
+async function runGrib2Json(path: string): Promise<Grib2JsonRecord[]> {
+  const launcher = await findLauncher();
+
+  return new Promise((resolve, reject) => {
+    let stdout = '';
+    let stderr = '';
+    const child = spawn(launcher, ['-c', '--data', path]);
+    child.stdout.on('data', data => (stdout += data));
+    child.stderr.on('data', data => (stderr += data));
+    child.on('error', error => {
+      reject(new Grib2JsonUnavailableError(`grib2json could not be started from ${launcher}`, { cause: error }));
+    });
+    child.on('close', code => {
+      if (code !== 0) {
+        // The launcher reports a missing Java the same way the shell reports a missing command
+        const message = stderr.trim() || `exit code ${code}`;
+        reject(code === 127 || /not found|ENOENT/.test(message)
+          ? new Grib2JsonUnavailableError(`grib2json could not run: ${message}`)
+          : new GribDecodeError(`grib2json failed: ${message}`, null, null));
+        return;
+      }
+      try {
+        resolve(JSON.parse(stdout) as Grib2JsonRecord[]);
+      } catch (error) {
+        reject(new GribDecodeError('grib2json printed output that is not JSON', null, null, { cause: error }));
+      }
+    });
+  });
+}
+
+// GRIB2JSON_PATH, or grib2json on the PATH; it must be executable
+async function findLauncher(): Promise<string> {
+  const configured = process.env.GRIB2JSON_PATH;
+  if (configured) {
+    try {
+      await access(configured, constants.X_OK);
+      return configured;
+    } catch (error) {
+      throw new Grib2JsonUnavailableError(`GRIB2JSON_PATH (${configured}) is not an executable file`, { cause: error });
+    }
+  }
+
+  for (const directory of (process.env.PATH ?? '').split(delimiter).filter(Boolean)) {
+    const candidate = join(directory, 'grib2json');
+    try {
+      await access(candidate, constants.X_OK);
+      return candidate;
+    } catch {
+      // not in this directory
+    }
+  }
+  throw new Grib2JsonUnavailableError('grib2json is not installed; set GRIB2JSON_PATH to its launcher');
+}
+
+/**
+ * The Code Table 4.4 unit of each field's forecast time, in file order.
+ * grib2json gives the time as a bare number (minutes for MRMS, hours for
+ * most models), so the unit comes from the file's own Section 4.
+ */
+function forecastTimeUnits(bytes: Uint8Array): number[] {
+  try {
+    return readGribInventory(bytes).messages.flatMap(message => message.fields.map(field => field.forecast.unit));
+  } catch {
+    return []; // grib2json will have its own say about a file this broken
+  }
+}
+
+function recordToRawField(record: Grib2JsonRecord, index: number, fileUnit: number | undefined): Parameters<typeof SimpleGribProcessor.buildField>[0] {
+  const { header, data } = record;
+  if (header.gridDefinitionTemplate !== 0) {
+    throw new GribUnsupportedError(`grib2json field ${index} uses grid template 3.${header.gridDefinitionTemplate}, only lat/lon grids are compared`);
+  }
+  if (!data) {
+    throw new GribFormatError(`grib2json field ${index} came back without data`);
+  }
+
+  const values = new Float32Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    values[i] = data[i] ?? NaN;
+  }
+
+  const levelValue = Number.isFinite(header.surface1Value) ? header.surface1Value : null;
+  return {
+    // grib2json doesn't say which message a field came from, so each counts as its own
+    messageIndex: index,
+    fieldIndex: 0,
+    discipline: header.discipline,
+    identification: {
+      centre: header.center,
+      subCentre: header.subcenter,
+      masterTableVersion: 0,
+      localTableVersion: 0,
+      referenceTime: new Date(header.refTime),
+      productionStatus: 0,
+      dataType: 0,
+    },
+    grid: createLatLonGridDefinition(header.nx, header.ny, header.la1, header.lo1, header.la2, header.lo2, header.scanMode),
+    product: {
+      template: 0,
+      parameterCategory: header.parameterCategory,
+      parameterNumber: header.parameterNumber,
+      generatingProcess: header.genProcessType ?? 0,
+      forecastTimeUnit: header.forecastTimeUnit ?? fileUnit ?? 1, // hours when nothing says otherwise
+      forecastTime: header.forecastTime,
+      levelType: header.surface1Type,
+      levelValue,
+      intervalEnd: null,
+    },
+    values,
+  };
+}
@@ -0,0 +1,251 @@
+// Background ingest: polls the configured feed on a schedule and keeps the
+// newest frames of each product in an archive on disk, so animation and
+// history have frames collected while nobody had the dashboard open.
+//
+// The archive uses the feed's layout (<domain folder>/<product>/<file>), so it
+// can itself be served with MRMS_SOURCE=directory. index.json beside it lists
+// every archived frame.
+import { createHash } from 'crypto';
+import { mkdir, readdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { getRadarConfig, IngestConfig, IngestTarget } from './config';
+import { fetchMrmsFile, listMrmsFiles } from './mrms';
+import { MRMS_DOMAINS, MrmsDomainName } from './mrmsDomains';
+import { listingEntries, MrmsFileEntry } from './mrmsListing';
+import { MrmsProductName } from './mrmsProducts';
+
+export interface ArchivedFrame {
+  product: MrmsProductName;
+  domain: MrmsDomainName;
+  validTime: string; // ISO 8601
+  file: string; // relative to the archive directory
+  size: number;
+  sha256: string;
+  ingestedAt: string;
+}
+
+export interface ArchiveIndex {
+  updatedAt: string;
+  frames: ArchivedFrame[]; // oldest first within each product and domain
+}
+
+export interface IngestReport {
+  added: number;
+  removed: number;
+  failed: number;
+}
+
+const INDEX_FILE = 'index.json';
+const FETCH_TIMEOUT_MS = 30000;
+
+export class IngestService {
+  private frames = new Map<string, ArchivedFrame>(); // by target and valid time
+  private loaded = false;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private running: Promise<IngestReport> | null = null;
+  private stopped = true;
+
+  constructor(private readonly config: IngestConfig) {}
+
+  // Poll now and then every interval until stopped
+  start() {
+    if (!this.stopped) return;
+    this.stopped = false;
+    const targets = this.config.targets.map(({ product, domain }) => `${domain}/${product}`).join(', ');
+    console.log(`🛰️ Ingest started for ${targets}, every ${this.config.intervalMs / 1000}s into ${this.config.directory}`);
+
+    const tick = async () => {
+      try {
+        await this.runOnce();
+      } catch (error) {
+        console.error('Ingest cycle failed:', error);
+      }
+      if (!this.stopped) this.timer = setTimeout(tick, this.config.intervalMs);
+    };
+    void tick();
+  }
+
+  // Stop polling, letting a cycle that has started finish
+  async stop() {
+    this.stopped = true;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    await this.running?.catch(() => undefined);
+  }
+
+  /**
+   * One poll of every target: fetch frames not yet archived, apply the
+   * retention policy and rewrite the index. Cycles never overlap.
+   */
+  runOnce(): Promise<IngestReport> {
+    this.running ??= this.cycle().finally(() => {
+      this.running = null;
+    });
+    return this.running;
+  }
+
+  index(): ArchiveIndex {
+    const frames = [...this.frames.values()].sort(
+      (a, b) => a.domain.localeCompare(b.domain) || a.product.localeCompare(b.product) || a.validTime.localeCompare(b.validTime)
+    );
+    return { updatedAt: new Date().toISOString(), frames };
+  }
+
+  private async cycle(): Promise<IngestReport> {
+    if (!this.loaded) {
+      await this.loadIndex();
+      this.loaded = true;
+    }
+
+    const report: IngestReport = { added: 0, removed: 0, failed: 0 };
+    for (const target of this.config.targets) {
+      let listed: MrmsFileEntry[];
+      try {
+        listed = await listMrmsFiles(target.product, target.domain);
+      } catch (error) {
+        console.warn(`⚠️ Could not list ${target.domain}/${target.product}:`, error instanceof Error ? error.message : error);
+        report.failed++;
+        continue;
+      }
+
+      for (const entry of this.wanted(listed)) {
+        const key = frameKey(target, entry.validTime);
+        if (this.frames.has(key)) continue; // same valid time, maybe under another name
+        try {
+          this.frames.set(key, await this.download(target, entry));
+          report.added++;
+        } catch (error) {
+          console.warn(`⚠️ Could not ingest ${entry.name}:`, error instanceof Error ? error.message : error);
+          report.failed++;
+        }
+      }
+
+      report.removed += await this.applyRetention(target);
+    }
+
+    await this.writeIndex();
+    console.log(`🗄️ Ingest cycle: ${report.added} added, ${report.removed} removed, ${report.failed} failed, ${this.frames.size} archived`);
+    return report;
+  }
+
+  // The newest listed frames that the retention policy would keep
+  private wanted(listed: MrmsFileEntry[]): MrmsFileEntry[] {
+    const cutoff = this.ageCutoff(Math.max(...listed.map(entry => entry.validTime.getTime())));
+    return listed.filter(entry => entry.validTime.getTime() >= cutoff).slice(-this.config.maxFrames);
+  }
+
+  private async download(target: IngestTarget, entry: MrmsFileEntry): Promise<ArchivedFrame> {
+    // Give up on a stalled transfer so it can't hold up the cycle
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+    let body: Uint8Array;
+    try {
+      const response = await fetchMrmsFile(entry.url, { headers: { 'Accept-Encoding': 'identity' }, signal: controller.signal });
+      if (!response.ok) {
+        throw new Error(`upstream answered ${response.status} ${response.statusText}`);
+      }
+      body = new Uint8Array(await response.arrayBuffer());
+    } finally {
+      clearTimeout(timeoutId);
+    }
+
+    const file = path.posix.join(MRMS_DOMAINS[target.domain].directory, target.product, entry.name);
+    const destination = path.join(this.config.directory, file);
+    await mkdir(path.dirname(destination), { recursive: true });
+    await writeFile(`${destination}.part`, body);
+    await rename(`${destination}.part`, destination);
+
+    console.log(`📥 Archived ${file} (${body.length} bytes)`);
+    return {
+      product: target.product,
+      domain: target.domain,
+      validTime: entry.validTime.toISOString(),
+      file,
+      size: body.length,
+      sha256: createHash('sha256').update(body).digest('hex'),
+      ingestedAt: new Date().toISOString(),
+    };
+  }
+
+  // Drop a target's frames beyond the newest maxFrames or older than maxAge
+  private async applyRetention(target: IngestTarget): Promise<number> {
+    const frames = [...this.frames.entries()]
+      .filter(([, frame]) => frame.product === target.product && frame.domain === target.domain)
+      .sort(([, a], [, b]) => b.validTime.localeCompare(a.validTime));
+    const cutoff = frames.length > 0 ? this.ageCutoff(Date.parse(frames[0][1].validTime)) : -Infinity;
+
+    let removed = 0;
+    for (const [index, [key, frame]] of frames.entries()) {
+      if (index < this.config.maxFrames && Date.parse(frame.validTime) >= cutoff) continue;
+      await rm(path.join(this.config.directory, frame.file), { force: true });
+      this.frames.delete(key);
+      removed++;
+    }
+    return removed;
+  }
+
+  // Ages count back from the newest frame rather than the clock, so a feed
+  // that stopped or a fixture dated in the past still keeps its last frames
+  private ageCutoff(newest: number): number {
+    return this.config.maxAgeMs && Number.isFinite(newest) ? newest - this.config.maxAgeMs : -Infinity;
+  }
+
+  // Read the index, or rebuild it from the files when there is none
+  private async loadIndex() {
+    try {
+      const index = JSON.parse(await readFile(path.join(this.config.directory, INDEX_FILE), 'utf8')) as ArchiveIndex;
+      for (const frame of index.frames) {
+        this.frames.set(frameKey(frame, new Date(frame.validTime)), frame);
+      }
+      console.log(`🗄️ Loaded ${index.frames.length} archived frame(s)`);
+      return;
+    } catch {
+      // no index yet
+    }
+
+    for (const target of this.config.targets) {
+      const folder = path.posix.join(MRMS_DOMAINS[target.domain].directory, target.product);
+      const names = await readdir(path.join(this.config.directory, folder)).catch(() => [] as string[]);
+      for (const entry of listingEntries(names, target.product, 'archive:/')) {
+        const file = path.posix.join(folder, entry.name);
+        const body = await readFile(path.join(this.config.directory, file));
+        this.frames.set(frameKey(target, entry.validTime), {
+          ...target,
+          validTime: entry.validTime.toISOString(),
+          file,
+          size: body.length,
+          sha256: createHash('sha256').update(body).digest('hex'),
+          ingestedAt: new Date().toISOString(),
+        });
+      }
+    }
+    if (this.frames.size > 0) console.log(`🗄️ Rebuilt the index from ${this.frames.size} archived file(s)`);
+  }
+
+  private async writeIndex() {
+    const destination = path.join(this.config.directory, INDEX_FILE);
+    await mkdir(this.config.directory, { recursive: true });
+    await writeFile(`${destination}.part`, JSON.stringify(this.index(), null, 2));
+    await rename(`${destination}.part`, destination);
+  }
+}
+
+function frameKey({ product, domain }: IngestTarget, validTime: Date): string {
+  return `${domain}/${product}/${validTime.toISOString()}`;
+}
+
+let service: IngestService | null = null;
+
+/**
+ * Start the ingest for this process when INGEST_DIR is set. Safe to call
+ * more than once.
+ */
+export function startIngest(): IngestService | null {
+  const { ingest } = getRadarConfig();
+  if (!ingest) return null;
+  if (!service) {
+    service = new IngestService(ingest);
+    service.start();
+  }
+  return service;
+}
@@ -0,0 +1,62 @@
+// MRMS feed the API routes read from, NOAA's unless the configuration points
+// at a local mirror or the fixture files (see config.ts)
+import { getRadarConfig } from './config';
+import { DEFAULT_DOMAIN, MrmsDomainName } from './mrmsDomains';
+import { MrmsFileEntry, nearestFile } from './mrmsListing';
+import { DEFAULT_PRODUCT, latestFileName, MrmsProductName } from './mrmsProducts';
+import { createMrmsSource, MrmsSource, UpstreamFetchError } from './mrmsSources';
+
+// A file picked from the feed; validTime is null for the .latest copy, whose time is only inside the file
+export interface MrmsFileRef {
+  url: string;
+  name: string;
+  validTime: Date | null;
+}
+
+let source: MrmsSource | null = null;
+
+export function getMrmsSource(): MrmsSource {
+  source ??= createMrmsSource(getRadarConfig().source);
+  return source;
+}
+
+export function productDirectoryUrl(product: MrmsProductName, domain: MrmsDomainName = DEFAULT_DOMAIN): string {
+  return getMrmsSource().directoryUrl(product, domain);
+}
+
+export function latestFileUrl(product: MrmsProductName = DEFAULT_PRODUCT, domain: MrmsDomainName = DEFAULT_DOMAIN): string {
+  return `${productDirectoryUrl(product, domain)}${latestFileName(product)}`;
+}
+
+// Timestamped files of a product, oldest first; throws UpstreamFetchError when the feed can't list them
+export function listMrmsFiles(product: MrmsProductName, domain: MrmsDomainName = DEFAULT_DOMAIN): Promise<MrmsFileEntry[]> {
+  return getMrmsSource().list(product, domain);
+}
+
+/**
+ * The .latest file, or with `time` the file closest to it in the listing
+ * `list` gives, such as the cached one in radarCache. Throws
+ * UpstreamFetchError when the listing fails or is empty.
+ */
+export async function resolveMrmsFile(
+  product: MrmsProductName,
+  domain: MrmsDomainName,
+  time: Date | null,
+  list: (product: MrmsProductName, domain: MrmsDomainName) => Promise<MrmsFileEntry[]>
+): Promise<MrmsFileRef> {
+  if (!time) {
+    return { url: latestFileUrl(product, domain), name: latestFileName(product), validTime: null };
+  }
+
+  const file = nearestFile(await list(product, domain), time);
+  if (!file) {
+    throw new UpstreamFetchError(productDirectoryUrl(product, domain), 404, `No ${product} files are listed for ${domain}`);
+  }
+  console.log(`🕒 Nearest file to ${time.toISOString()}: ${file.name}`);
+  return file;
+}
+
+// Fetch a file from the feed by its URL
+export function fetchMrmsFile(url: string, init?: RequestInit): Promise<Response> {
+  return getMrmsSource().fetch(url, init);
+}
@@ -0,0 +1,64 @@
+// Regional MRMS domains. CONUS files sit at the root of the 2D feed; every
+// other domain has the same product directories under a folder of its own,
+// e.g. https://mrms.ncep.noaa.gov/2D/HAWAII/ReflectivityAtLowestAltitude/.
+// Local mirrors use the same layout.
+
+export interface MrmsDomain {
+  name: string;
+  label: string;
+  directory: string; // folder of the product directories, relative to the feed root
+  center: { lat: number; lng: number }; // default map view
+  zoom: number;
+  crossesDateline: boolean; // draw longitudes around the centre instead of wrapping at ±180°
+}
+
+export const MRMS_DOMAINS = {
+  CONUS: {
+    name: 'CONUS',
+    label: 'Continental US',
+    directory: '',
+    center: { lat: 39.8283, lng: -98.5795 },
+    zoom: 4,
+    crossesDateline: false,
+  },
+  ALASKA: {
+    name: 'ALASKA',
+    label: 'Alaska',
+    directory: 'ALASKA/',
+    center: { lat: 61.5, lng: -152 },
+    zoom: 4,
+    crossesDateline: true, // the western Aleutians are east of 180°
+  },
+  HAWAII: {
+    name: 'HAWAII',
+    label: 'Hawaii',
+    directory: 'HAWAII/',
+    center: { lat: 20.6, lng: -157.5 },
+    zoom: 6,
+    crossesDateline: false,
+  },
+  CARIB: {
+    name: 'CARIB',
+    label: 'Caribbean',
+    directory: 'CARIB/',
+    center: { lat: 18.2, lng: -66.5 },
+    zoom: 6,
+    crossesDateline: false,
+  },
+  GUAM: {
+    name: 'GUAM',
+    label: 'Guam',
+    directory: 'GUAM/',
+    center: { lat: 13.45, lng: 144.8 },
+    zoom: 7,
+    crossesDateline: false,
+  },
+} satisfies Record<string, MrmsDomain>;
+
+export type MrmsDomainName = keyof typeof MRMS_DOMAINS;
+
+export const DEFAULT_DOMAIN: MrmsDomainName = 'CONUS';
+
+export function isMrmsDomainName(name: string): name is MrmsDomainName {
+  return Object.prototype.hasOwnProperty.call(MRMS_DOMAINS, name);
+}
@@ -0,0 +1,62 @@
+// Timestamped files in an MRMS product directory, read from the HTML index
+// page NOAA serves for it. Files are named
+//   MRMS_<product>_YYYYMMDD-HHMMSS.grib2.gz
+// and most products put their level in between, e.g.
+//   MRMS_ReflectivityAtLowestAltitude_00.50_20261019-120040.grib2.gz
+import { MrmsProductName, parseFileTimestamp } from './mrmsProducts';
+
+export interface MrmsFileEntry {
+  name: string;
+  url: string;
+  validTime: Date;
+}
+
+const LINK = /href\s*=\s*["']([^"']+)["']/gi;
+
+/**
+ * The product's timestamped files linked from a directory listing, oldest
+ * first. Links to other files (the .latest copy, parent directory, sort
+ * links) are skipped.
+ */
+export function parseMrmsListing(html: string, product: MrmsProductName, directoryUrl: string): MrmsFileEntry[] {
+  const names = [...html.matchAll(LINK)].map(([, href]) => href.split(/[?#]/)[0].split('/').pop() ?? '');
+  return listingEntries(names, product, directoryUrl);
+}
+
+/**
+ * Entries for the names that are timestamped files of the product, oldest
+ * first, with URLs relative to the directory.
+ */
+export function listingEntries(names: string[], product: MrmsProductName, directoryUrl: string): MrmsFileEntry[] {
+  const pattern = new RegExp(`^MRMS_${escapeRegExp(product)}(?:_[\\d.]+)?_(\\d{8}-\\d{6})\\.grib2\\.gz$`);
+  const files = new Map<string, MrmsFileEntry>();
+
+  for (const name of names) {
+    const match = pattern.exec(name);
+    const validTime = match && parseFileTimestamp(match[1]);
+    if (!validTime || files.has(name)) continue;
+    files.set(name, { name, url: new URL(name, directoryUrl).href, validTime });
+  }
+
+  return [...files.values()].sort((a, b) => a.validTime.getTime() - b.validTime.getTime());
+}
+
+/**
+ * The file whose valid time is closest to `time`, the earlier one on a tie.
+ */
+export function nearestFile(files: MrmsFileEntry[], time: Date): MrmsFileEntry | null {
+  let nearest: MrmsFileEntry | null = null;
+  let distance = Infinity;
+  for (const file of files) {
+    const d = Math.abs(file.validTime.getTime() - time.getTime());
+    if (d < distance) {
+      nearest = file;
+      distance = d;
+    }
+  }
+  return nearest;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
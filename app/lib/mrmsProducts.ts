@@ -0,0 +1,195 @@
+// Catalog of the NOAA MRMS 2D products the app can fetch and draw.
+//
+// Every product lives in its own directory under the MRMS root, named after
+// the product, and is published as
+//   MRMS_<name>_YYYYMMDD-HHMMSS.grib2.gz   one file per update
+//   MRMS_<name>.latest.grib2.gz            a copy of the newest one
+import { RadarPaletteName } from '../utils/radarPalettes';
+
+export type MrmsProductGroup = 'Reflectivity' | 'Precipitation' | 'Severe weather' | 'Accumulation';
+
+export interface MrmsProduct {
+  name: string; // directory and file name stem
+  label: string;
+  group: MrmsProductGroup;
+  description: string;
+  units: string;
+  range: { min: number; max: number }; // default display and filter range
+  palette: RadarPaletteName;
+  updateMinutes: number; // how often a new file appears
+}
+
+export const MRMS_PRODUCTS = {
+  ReflectivityAtLowestAltitude: {
+    name: 'ReflectivityAtLowestAltitude',
+    label: 'Reflectivity (lowest altitude)',
+    group: 'Reflectivity',
+    description: 'Reflectivity from the lowest radar beam that sees each point',
+    units: 'dBZ',
+    range: { min: -30, max: 80 },
+    palette: 'reflectivity',
+    updateMinutes: 2,
+  },
+  MergedReflectivityQCComposite: {
+    name: 'MergedReflectivityQCComposite',
+    label: 'Composite reflectivity',
+    group: 'Reflectivity',
+    description: 'Highest quality-controlled reflectivity in each column',
+    units: 'dBZ',
+    range: { min: -30, max: 80 },
+    palette: 'reflectivity',
+    updateMinutes: 2,
+  },
+  'MergedReflectivityQC_00.50': {
+    name: 'MergedReflectivityQC_00.50',
+    label: 'Reflectivity at 0.5 km',
+    group: 'Reflectivity',
+    description: 'Quality-controlled 3D reflectivity at 0.5 km above sea level',
+    units: 'dBZ',
+    range: { min: -30, max: 80 },
+    palette: 'reflectivity',
+    updateMinutes: 2,
+  },
+  PrecipRate: {
+    name: 'PrecipRate',
+    label: 'Precipitation rate',
+    group: 'Precipitation',
+    description: 'Instantaneous surface precipitation rate from radar',
+    units: 'mm/hr',
+    range: { min: 0, max: 100 },
+    palette: 'precipRate',
+    updateMinutes: 2,
+  },
+  PrecipFlag: {
+    name: 'PrecipFlag',
+    label: 'Precipitation type',
+    group: 'Precipitation',
+    description: 'Surface precipitation type: stratiform, convective, snow, hail or tropical',
+    units: 'flag',
+    range: { min: 0, max: 96 },
+    palette: 'precipFlag',
+    updateMinutes: 2,
+  },
+  MESH: {
+    name: 'MESH',
+    label: 'Hail size (MESH)',
+    group: 'Severe weather',
+    description: 'Maximum estimated size of hail',
+    units: 'mm',
+    range: { min: 0, max: 100 },
+    palette: 'hail',
+    updateMinutes: 2,
+  },
+  EchoTop_18: {
+    name: 'EchoTop_18',
+    label: 'Echo tops (18 dBZ)',
+    group: 'Severe weather',
+    description: 'Highest altitude where reflectivity reaches 18 dBZ',
+    units: 'km MSL',
+    range: { min: 0, max: 18 },
+    palette: 'echoTop',
+    updateMinutes: 2,
+  },
+  VIL: {
+    name: 'VIL',
+    label: 'Vertically integrated liquid',
+    group: 'Severe weather',
+    description: 'Liquid water in the column, estimated from reflectivity',
+    units: 'kg/m²',
+    range: { min: 0, max: 80 },
+    palette: 'vil',
+    updateMinutes: 2,
+  },
+  RotationTrack30min: {
+    name: 'RotationTrack30min',
+    label: 'Rotation tracks (30 min)',
+    group: 'Severe weather',
+    description: 'Highest low-level azimuthal shear over the last 30 minutes',
+    units: '0.001/s',
+    range: { min: 0, max: 20 },
+    palette: 'rotation',
+    updateMinutes: 2,
+  },
+  RotationTrack60min: {
+    name: 'RotationTrack60min',
+    label: 'Rotation tracks (60 min)',
+    group: 'Severe weather',
+    description: 'Highest low-level azimuthal shear over the last hour',
+    units: '0.001/s',
+    range: { min: 0, max: 20 },
+    palette: 'rotation',
+    updateMinutes: 2,
+  },
+  RadarOnly_QPE_01H: {
+    name: 'RadarOnly_QPE_01H',
+    label: 'Radar QPE (1 h)',
+    group: 'Accumulation',
+    description: 'Radar-only precipitation estimate over the last hour',
+    units: 'mm',
+    range: { min: 0, max: 50 },
+    palette: 'accumulation',
+    updateMinutes: 2,
+  },
+  RadarOnly_QPE_24H: {
+    name: 'RadarOnly_QPE_24H',
+    label: 'Radar QPE (24 h)',
+    group: 'Accumulation',
+    description: 'Radar-only precipitation estimate over the last 24 hours',
+    units: 'mm',
+    range: { min: 0, max: 250 },
+    palette: 'accumulation',
+    updateMinutes: 60,
+  },
+  MultiSensor_QPE_01H_Pass2: {
+    name: 'MultiSensor_QPE_01H_Pass2',
+    label: 'Multi-sensor QPE (1 h)',
+    group: 'Accumulation',
+    description: 'Radar, gauge and model precipitation estimate over the last hour',
+    units: 'mm',
+    range: { min: 0, max: 50 },
+    palette: 'accumulation',
+    updateMinutes: 60,
+  },
+  MultiSensor_QPE_24H_Pass2: {
+    name: 'MultiSensor_QPE_24H_Pass2',
+    label: 'Multi-sensor QPE (24 h)',
+    group: 'Accumulation',
+    description: 'Radar, gauge and model precipitation estimate over the last 24 hours',
+    units: 'mm',
+    range: { min: 0, max: 250 },
+    palette: 'accumulation',
+    updateMinutes: 60,
+  },
+} satisfies Record<string, MrmsProduct>;
+
+export type MrmsProductName = keyof typeof MRMS_PRODUCTS;
+
+export const DEFAULT_PRODUCT: MrmsProductName = 'ReflectivityAtLowestAltitude';
+
+export function isMrmsProductName(name: string): name is MrmsProductName {
+  return Object.prototype.hasOwnProperty.call(MRMS_PRODUCTS, name);
+}
+
+export function latestFileName(product: MrmsProductName): string {
+  return `MRMS_${product}.latest.grib2.gz`;
+}
+
+// File name for the update at `time`, e.g. MRMS_PrecipRate_20240520-210200.grib2.gz
+export function timestampedFileName(product: MrmsProductName, time: Date): string {
+  return `MRMS_${product}_${fileTimestamp(time)}.grib2.gz`;
+}
+
+// The YYYYMMDD-HHMMSS stamp (UTC) MRMS puts in file names
+export function fileTimestamp(time: Date): string {
+  return time.toISOString().slice(0, 19).replace(/[-:]/g, '').replace('T', '-');
+}
+
+// The time in a file name stamp such as 20240520-210200, or null if it isn't a valid one
+export function parseFileTimestamp(stamp: string): Date | null {
+  const match = /^(\d{4})(\d{2})(\d{2})-(\d{2})(\d{2})(\d{2})$/.exec(stamp);
+  if (!match) return null;
+  const [year, month, day, hour, minute, second] = match.slice(1).map(Number);
+  const time = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+  // Date.UTC rolls 20240231 over into March; only accept stamps that round-trip
+  return fileTimestamp(time) === stamp ? time : null;
+}
@@ -0,0 +1,45 @@
+// Query parameters shared by the routes that read from the MRMS feed. Each
+// parser returns the value, or a 400 response to send back as it is.
+import { NextResponse } from 'next/server';
+import { DEFAULT_DOMAIN, isMrmsDomainName, MRMS_DOMAINS, MrmsDomainName } from './mrmsDomains';
+import { DEFAULT_PRODUCT, isMrmsProductName, MRMS_PRODUCTS, MrmsProductName, parseFileTimestamp } from './mrmsProducts';
+
+// `product`, an MRMS product name from the catalog
+export function parseProduct(searchParams: URLSearchParams): MrmsProductName | NextResponse {
+  const product = searchParams.get('product') ?? DEFAULT_PRODUCT;
+  if (!isMrmsProductName(product)) {
+    return NextResponse.json(
+      { error: `Unknown product "${product}"`, products: Object.keys(MRMS_PRODUCTS) },
+      { status: 400 }
+    );
+  }
+  return product;
+}
+
+// `domain`, CONUS or one of the regional MRMS domains
+export function parseDomain(searchParams: URLSearchParams): MrmsDomainName | NextResponse {
+  const domain = (searchParams.get('domain') ?? DEFAULT_DOMAIN).toUpperCase();
+  if (!isMrmsDomainName(domain)) {
+    return NextResponse.json(
+      { error: `Unknown domain "${domain}"`, domains: Object.keys(MRMS_DOMAINS) },
+      { status: 400 }
+    );
+  }
+  return domain;
+}
+
+// `time`, an ISO 8601 date or a file name stamp such as 20261019-120000 (both UTC
+// unless an offset is given); null when absent
+export function parseTime(searchParams: URLSearchParams): Date | null | NextResponse {
+  const value = searchParams.get('time');
+  if (value === null) return null;
+
+  const time = parseFileTimestamp(value) ?? new Date(/^\d{4}-\d{2}-\d{2}T[^Z+-]*$/.test(value) ? `${value}Z` : value);
+  if (Number.isNaN(time.getTime())) {
+    return NextResponse.json(
+      { error: `Invalid time "${value}"; use ISO 8601 (2026-10-19T12:00:00Z) or YYYYMMDD-HHMMSS` },
+      { status: 400 }
+    );
+  }
+  return time;
+}
@@ -0,0 +1,201 @@
+// Where MRMS files come from: NOAA's HTTP feed, a local mirror directory or
+// generated fixture files. All three use the feed's directory layout and file
+// names, and answer for the .latest name, so the routes and the cache treat
+// them alike. Local sources honour If-None-Match / If-Modified-Since too.
+import { readdir, readFile, stat } from 'fs/promises';
+import { fileURLToPath, pathToFileURL } from 'url';
+import { gzipSync } from 'zlib';
+import { encodeGribMessage, metadataFromField } from '../utils/gribEncoder';
+import { SimpleGribProcessor } from '../utils/gribProcessor';
+import { RadarScenarioName, scenarioTime } from '../utils/radarScenarios';
+import { MrmsSourceConfig } from './config';
+import { MRMS_DOMAINS, MrmsDomainName } from './mrmsDomains';
+import { listingEntries, MrmsFileEntry, parseMrmsListing } from './mrmsListing';
+import { isMrmsProductName, latestFileName, MrmsProductName, timestampedFileName } from './mrmsProducts';
+
+export interface MrmsSource {
+  directoryUrl(product: MrmsProductName, domain: MrmsDomainName): string;
+  // Timestamped files of the product, oldest first
+  list(product: MrmsProductName, domain: MrmsDomainName): Promise<MrmsFileEntry[]>;
+  // A file by the URL from directoryUrl or list, as an HTTP response
+  fetch(url: string, init?: RequestInit): Promise<Response>;
+}
+
+export class UpstreamFetchError extends Error {
+  readonly status: number;
+  readonly statusText: string;
+
+  constructor(url: string, status: number, statusText: string) {
+    super(`Upstream answered ${status} ${statusText} for ${url}`);
+    this.name = 'UpstreamFetchError';
+    this.status = status;
+    this.statusText = statusText;
+  }
+}
+
+const LIST_TIMEOUT_MS = 30000;
+
+export function createMrmsSource(config: MrmsSourceConfig): MrmsSource {
+  switch (config.kind) {
+    case 'http':
+      return httpSource(config.baseUrl);
+    case 'directory':
+      return directorySource(config.directory);
+    case 'fixture':
+      return fixtureSource(config.scenario, config.seed, config.frames);
+  }
+}
+
+function httpSource(baseUrl: string): MrmsSource {
+  const directoryUrl = (product: MrmsProductName, domain: MrmsDomainName) =>
+    `${baseUrl}${MRMS_DOMAINS[domain].directory}${product}/`;
+
+  return {
+    directoryUrl,
+
+    async list(product, domain) {
+      const url = directoryUrl(product, domain);
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), LIST_TIMEOUT_MS);
+      try {
+        const response = await fetch(url, {
+          headers: { 'User-Agent': 'radar-viz-app/1.0.0', 'Accept': 'text/html', 'Cache-Control': 'no-cache' },
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new UpstreamFetchError(url, response.status, response.statusText);
+        return parseMrmsListing(await response.text(), product, url);
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    },
+
+    fetch(url, init = {}) {
+      const headers = new Headers(init.headers);
+      if (!headers.has('User-Agent')) headers.set('User-Agent', 'radar-viz-app/1.0.0');
+      return fetch(url, { ...init, headers });
+    },
+  };
+}
+
+// A mirror laid out like the feed. Archives often lack the .latest copies, so
+// without one the newest timestamped file stands in for it.
+function directorySource(root: string): MrmsSource {
+  const rootUrl = `${pathToFileURL(root).href}/`;
+  const directoryUrl = (product: MrmsProductName, domain: MrmsDomainName) =>
+    `${rootUrl}${MRMS_DOMAINS[domain].directory}${product}/`;
+
+  const list = async (product: MrmsProductName, domain: MrmsDomainName) => {
+    const url = directoryUrl(product, domain);
+    try {
+      return listingEntries(await readdir(fileURLToPath(url)), product, url);
+    } catch {
+      return [];
+    }
+  };
+
+  return {
+    directoryUrl,
+    list,
+
+    async fetch(url, init = {}) {
+      let path = fileURLToPath(url);
+      let info = await stat(path).catch(() => null);
+
+      const { product, domain, name } = splitFileUrl(url, rootUrl);
+      if (!info && product && domain && name === latestFileName(product)) {
+        const newest = (await list(product, domain)).at(-1);
+        if (newest) {
+          path = fileURLToPath(newest.url);
+          info = await stat(path).catch(() => null);
+        }
+      }
+      if (!info?.isFile()) return notFound(url);
+
+      return conditionalResponse(init, `"${info.size}-${Math.floor(info.mtimeMs)}"`, info.mtime, () => readFile(path));
+    },
+  };
+}
+
+// Deterministic files from a seeded demo scenario, one per frame, the last
+// also being .latest. Every product and domain shows the same reflectivity.
+function fixtureSource(scenario: RadarScenarioName, seed: number, frames: number): MrmsSource {
+  const rootUrl = 'fixture:/';
+  const encoded = new Map<number, Uint8Array<ArrayBuffer>>();
+  const directoryUrl = (product: MrmsProductName, domain: MrmsDomainName) =>
+    `${rootUrl}${MRMS_DOMAINS[domain].directory}${product}/`;
+
+  const frameFile = (frame: number) => {
+    let file = encoded.get(frame);
+    if (!file) {
+      const [field] = SimpleGribProcessor.generateScenarioFields({ scenario, seed, frame });
+      file = new Uint8Array(gzipSync(encodeGribMessage(field.grid, metadataFromField(field), { packing: 'png' })));
+      encoded.set(frame, file);
+    }
+    return file;
+  };
+
+  return {
+    directoryUrl,
+
+    async list(product, domain) {
+      const names = Array.from({ length: frames }, (_, frame) => timestampedFileName(product, scenarioTime(frame)));
+      return listingEntries(names, product, directoryUrl(product, domain));
+    },
+
+    async fetch(url, init = {}) {
+      const { product, name } = splitFileUrl(url, rootUrl);
+      if (!product) return notFound(url);
+
+      let frame = -1;
+      if (name === latestFileName(product)) {
+        frame = frames - 1;
+      } else {
+        for (let i = 0; i < frames; i++) {
+          if (name === timestampedFileName(product, scenarioTime(i))) frame = i;
+        }
+      }
+      if (frame < 0) return notFound(url);
+
+      return conditionalResponse(init, `"fixture-${scenario}-${seed}-${frame}"`, scenarioTime(frame), async () => frameFile(frame));
+    },
+  };
+}
+
+// The product, domain and file name in a URL under the source's root
+function splitFileUrl(url: string, rootUrl: string): { product?: MrmsProductName; domain?: MrmsDomainName; name: string } {
+  const parts = url.slice(rootUrl.length).split('/');
+  const name = parts.pop() ?? '';
+  const product = parts.pop();
+  const folder = parts.length > 0 ? `${parts.join('/')}/` : '';
+  const domain = (Object.keys(MRMS_DOMAINS) as MrmsDomainName[]).find(key => MRMS_DOMAINS[key].directory === folder);
+  return { product: product && isMrmsProductName(product) ? product : undefined, domain, name };
+}
+
+// 304 when the request's validators still match, otherwise the file
+async function conditionalResponse(
+  init: RequestInit,
+  etag: string,
+  modified: Date,
+  read: () => Promise<Uint8Array>
+): Promise<Response> {
+  const request = new Headers(init.headers);
+  const lastModified = modified.toUTCString();
+  const ifNoneMatch = request.get('If-None-Match');
+  const ifModifiedSince = request.get('If-Modified-Since');
+  const unchanged = ifNoneMatch
+    ? ifNoneMatch.split(',').some(tag => tag.trim() === etag)
+    : ifModifiedSince !== null && Math.floor(modified.getTime() / 1000) <= Date.parse(ifModifiedSince) / 1000;
+
+  const headers = { 'ETag': etag, 'Last-Modified': lastModified };
+  if (unchanged) return new Response(null, { status: 304, headers });
+
+  const body = new Uint8Array(await read());
+  return new Response(body, {
+    status: 200,
+    headers: { ...headers, 'Content-Type': 'application/gzip', 'Content-Length': body.length.toString() },
+  });
+}
+
+function notFound(url: string): Response {
+  return new Response(`${url} not found`, { status: 404, statusText: 'Not Found' });
+}
@@ -0,0 +1,294 @@
+// Server-side cache of files fetched from the MRMS feed, so every dashboard
+// load doesn't pull the full file again. Entries live in memory, least
+// recently used first out, and are also written to RADAR_CACHE_DIR when it is
+// set so they survive a restart. Old entries are revalidated with
+// If-None-Match / If-Modified-Since and served while that happens. Directory
+// listings are kept too, for part of each product's update interval.
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import path from 'path';
+import { getRadarConfig } from './config';
+import { fetchMrmsFile, listMrmsFiles, MrmsFileRef, resolveMrmsFile } from './mrms';
+import { MrmsDomainName } from './mrmsDomains';
+import { MrmsFileEntry } from './mrmsListing';
+import { fileTimestamp, MRMS_PRODUCTS, MrmsProductName } from './mrmsProducts';
+import { UpstreamFetchError } from './mrmsSources';
+
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE' | 'REVALIDATED';
+
+export interface CachedFile {
+  url: string;
+  body: Uint8Array<ArrayBuffer>;
+  hash: string; // SHA-256 of the body, hex
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: number; // when the feed last confirmed this copy, ms since the epoch
+}
+
+export interface CacheResult {
+  file: CachedFile;
+  status: CacheStatus;
+}
+
+// A file picked with resolveMrmsFile, as the cache has it
+export interface CachedMrmsFile extends CacheResult {
+  source: MrmsFileRef;
+  key: string;
+}
+
+export interface CachedListing {
+  files: MrmsFileEntry[];
+  status: Exclude<CacheStatus, 'REVALIDATED'>;
+  fetchedAt: number; // ms since the epoch
+}
+
+export interface CacheFreshness {
+  maxAge: number; // ms an entry is served without asking the feed
+  staleWhileRevalidate: number; // ms after that it's still served while a check runs in the background
+}
+
+export interface RadarFileCacheOptions {
+  maxBytes: number;
+  directory?: string | null;
+}
+
+const MAX_RETRIES = 3;
+const FETCH_TIMEOUT_MS = 30000;
+
+interface Revalidation {
+  file: CachedFile;
+  notModified: boolean;
+}
+
+export class RadarFileCache {
+  private readonly entries = new Map<string, CachedFile>(); // oldest use first
+  private readonly pending = new Map<string, Promise<Revalidation>>();
+  private size = 0;
+
+  constructor(private readonly options: RadarFileCacheOptions) {}
+
+  /**
+   * The file at `url`, from the cache when it's fresh enough. Requests for a
+   * key that is already being fetched share that fetch.
+   */
+  async get(key: string, url: string, freshness: CacheFreshness): Promise<CacheResult> {
+    const cached = this.entries.get(key) ?? (await this.readFromDisk(key, url));
+    if (!cached) {
+      const { file } = await this.revalidate(key, url, null);
+      return { file, status: 'MISS' };
+    }
+
+    this.remember(key, cached);
+    const age = Date.now() - cached.fetchedAt;
+    if (age <= freshness.maxAge) {
+      return { file: cached, status: 'HIT' };
+    }
+
+    if (age <= freshness.maxAge + freshness.staleWhileRevalidate) {
+      this.revalidate(key, url, cached).catch(error => {
+        console.warn(`⚠️ Background revalidation of ${key} failed:`, error instanceof Error ? error.message : error);
+      });
+      return { file: cached, status: 'STALE' };
+    }
+
+    // Too old to serve unchecked; fall back to it only if the feed can't be reached
+    try {
+      const { file, notModified } = await this.revalidate(key, url, cached);
+      return { file, status: notModified ? 'REVALIDATED' : 'MISS' };
+    } catch (error) {
+      console.warn(`⚠️ Revalidation of ${key} failed, serving the cached copy:`, error instanceof Error ? error.message : error);
+      return { file: cached, status: 'STALE' };
+    }
+  }
+
+  // The cached copy, if any, without touching the feed
+  peek(key: string): CachedFile | null {
+    return this.entries.get(key) ?? null;
+  }
+
+  private revalidate(key: string, url: string, cached: CachedFile | null): Promise<Revalidation> {
+    let request = this.pending.get(key);
+    if (!request) {
+      request = fetchUpstream(url, cached)
+        .then(result => {
+          this.remember(key, result.file);
+          if (!result.notModified) void this.writeToDisk(key, result.file);
+          return result;
+        })
+        .finally(() => this.pending.delete(key));
+      this.pending.set(key, request);
+    }
+    return request;
+  }
+
+  // Store or refresh an entry as the most recently used, evicting the least recently used over the limit
+  private remember(key: string, file: CachedFile) {
+    const previous = this.entries.get(key);
+    if (previous) {
+      this.size -= previous.body.length;
+      this.entries.delete(key);
+    }
+    this.entries.set(key, file);
+    this.size += file.body.length;
+
+    for (const [oldKey, oldFile] of this.entries) {
+      if (this.size <= this.options.maxBytes || oldKey === key) break;
+      this.entries.delete(oldKey);
+      this.size -= oldFile.body.length;
+    }
+  }
+
+  private diskPaths(key: string) {
+    const base = path.join(this.options.directory!, key.replace(/[^A-Za-z0-9._-]/g, '_'));
+    return { body: `${base}.bin`, meta: `${base}.json` };
+  }
+
+  private async readFromDisk(key: string, url: string): Promise<CachedFile | null> {
+    if (!this.options.directory) return null;
+    const paths = this.diskPaths(key);
+    try {
+      const meta = JSON.parse(await readFile(paths.meta, 'utf8')) as Omit<CachedFile, 'body' | 'hash'>;
+      if (meta.url !== url) return null;
+      const body = new Uint8Array(await readFile(paths.body));
+      return { ...meta, body, hash: contentHash(body) };
+    } catch {
+      return null;
+    }
+  }
+
+  private async writeToDisk(key: string, file: CachedFile) {
+    if (!this.options.directory) return;
+    const paths = this.diskPaths(key);
+    const { url, etag, lastModified, fetchedAt } = file;
+    try {
+      await mkdir(this.options.directory, { recursive: true });
+      await writeFile(paths.body, file.body);
+      await writeFile(paths.meta, JSON.stringify({ url, etag, lastModified, fetchedAt }));
+    } catch (error) {
+      console.warn(`⚠️ Could not write ${key} to the radar cache directory:`, error instanceof Error ? error.message : error);
+    }
+  }
+}
+
+// Fetch with retries and exponential backoff, asking only for changes when there is a cached copy
+async function fetchUpstream(url: string, cached: CachedFile | null): Promise<Revalidation> {
+  const headers: Record<string, string> = {
+    'User-Agent': 'radar-viz-app/1.0.0',
+    'Accept': 'application/gzip, application/octet-stream, */*',
+    'Accept-Encoding': 'identity', // Don't double-compress
+  };
+  if (cached?.etag) headers['If-None-Match'] = cached.etag;
+  if (cached?.lastModified) headers['If-Modified-Since'] = cached.lastModified;
+
+  let lastError: Error | null = null;
+  for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+    try {
+      console.log(`Attempt ${attempt}/${MAX_RETRIES} to ${cached ? 'revalidate' : 'download'} ${url}`);
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), FETCH_TIMEOUT_MS);
+      try {
+        const response = await fetchMrmsFile(url, { headers, signal: controller.signal });
+
+        if (response.status === 304 && cached) {
+          return { file: { ...cached, fetchedAt: Date.now() }, notModified: true };
+        }
+        if (!response.ok) {
+          throw new UpstreamFetchError(url, response.status, response.statusText);
+        }
+
+        const body = new Uint8Array(await response.arrayBuffer());
+        console.log(`📥 Cached ${body.length} bytes from ${url}`);
+        return {
+          file: {
+            url,
+            body,
+            hash: contentHash(body),
+            etag: response.headers.get('etag'),
+            lastModified: response.headers.get('last-modified'),
+            fetchedAt: Date.now(),
+          },
+          notModified: false,
+        };
+      } finally {
+        clearTimeout(timeoutId);
+      }
+    } catch (error) {
+      lastError = error instanceof Error ? error : new Error(String(error));
+      console.error(`Attempt ${attempt} failed:`, lastError.message);
+
+      if (attempt < MAX_RETRIES) {
+        const delay = Math.min(1000 * Math.pow(2, attempt - 1), 5000);
+        console.log(`Waiting ${delay}ms before retry...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+  throw lastError ?? new Error('All retry attempts failed');
+}
+
+function contentHash(body: Uint8Array): string {
+  return createHash('sha256').update(body).digest('hex');
+}
+
+let cache: RadarFileCache | null = null;
+const listings = new Map<string, Omit<CachedListing, 'status'>>(); // one per product and domain
+const pendingListings = new Map<string, Promise<Omit<CachedListing, 'status'>>>();
+
+// The cache shared by every request to this server process
+export function getRadarFileCache(): RadarFileCache {
+  cache ??= new RadarFileCache(getRadarConfig().cache);
+  return cache;
+}
+
+/**
+ * The latest file of a product, or with `time` the listed file nearest it,
+ * through the shared cache. Throws UpstreamFetchError when the feed fails.
+ */
+export async function getCachedMrmsFile(product: MrmsProductName, domain: MrmsDomainName, time: Date | null): Promise<CachedMrmsFile> {
+  const source = await resolveMrmsFile(product, domain, time, async () => (await getCachedMrmsListing(product, domain)).files);
+  console.log(`Fetching radar data from: ${source.url}`);
+  const key = `${domain}/${product}/${source.validTime ? fileTimestamp(source.validTime) : 'latest'}`;
+  const cached = await getRadarFileCache().get(key, source.url, mrmsFreshness(product, source));
+  return { ...cached, source, key };
+}
+
+/**
+ * The files listed for a product, asking the feed at most once per half
+ * update interval; requests meanwhile share the last listing or the one being
+ * fetched. When the feed fails an older listing is served rather than none.
+ */
+export async function getCachedMrmsListing(product: MrmsProductName, domain: MrmsDomainName): Promise<CachedListing> {
+  const key = `${domain}/${product}`;
+  const cached = listings.get(key);
+  if (cached && Date.now() - cached.fetchedAt <= (MRMS_PRODUCTS[product].updateMinutes * 60000) / 2) {
+    return { ...cached, status: 'HIT' };
+  }
+
+  let request = pendingListings.get(key);
+  if (!request) {
+    request = listMrmsFiles(product, domain)
+      .then(files => {
+        const listing = { files, fetchedAt: Date.now() };
+        listings.set(key, listing);
+        return listing;
+      })
+      .finally(() => pendingListings.delete(key));
+    pendingListings.set(key, request);
+  }
+
+  try {
+    return { ...(await request), status: 'MISS' };
+  } catch (error) {
+    if (!cached) throw error;
+    console.warn(`⚠️ Listing ${key} failed, serving the one from ${new Date(cached.fetchedAt).toISOString()}:`, error instanceof Error ? error.message : error);
+    return { ...cached, status: 'STALE' };
+  }
+}
+
+// Timestamped files never change; the .latest copy is checked twice per update
+// interval and served while being checked for up to five intervals
+function mrmsFreshness(product: MrmsProductName, source: MrmsFileRef): CacheFreshness {
+  if (source.validTime) return { maxAge: Infinity, staleWhileRevalidate: 0 };
+  const interval = MRMS_PRODUCTS[product].updateMinutes * 60000;
+  return { maxAge: interval / 2, staleWhileRevalidate: interval * 5 };
+}
@@ -0,0 +1,92 @@
+// Per-client token buckets with a daily quota, kept in memory, so the limits
+// apply per server process and start over when it restarts.
+import { RateLimit } from './config';
+
+export interface RateDecision {
+  allowed: boolean;
+  reason?: 'rate' | 'quota';
+  limit: number; // requests per minute
+  remaining: number; // whole tokens left in the bucket
+  quotaRemaining: number | null; // null without a daily quota
+  retryAfter: number; // seconds, 0 when allowed
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  fullAt: number; // when it will have refilled, after which it is no different from a new one
+  day: string; // UTC date that `used` counts
+  used: number; // requests allowed that day
+}
+
+const SWEEP_INTERVAL_MS = 60000;
+const MAX_BUCKETS = 100_000;
+
+export class RateLimiter {
+  private buckets = new Map<string, Bucket>(); // least recently used first
+  private sweptAt = 0;
+
+  constructor(private readonly maxBuckets = MAX_BUCKETS) {}
+
+  /**
+   * Take one request from the client's bucket and quota, or say how long to
+   * wait. A refused request uses up neither.
+   */
+  take(client: string, limits: RateLimit, now = Date.now()): RateDecision {
+    this.sweep(now);
+
+    const day = utcDay(now);
+    const perMs = limits.perMinute / 60000;
+    const bucket = this.buckets.get(client) ?? { tokens: limits.burst, updatedAt: now, fullAt: now, day, used: 0 };
+    if (bucket.day !== day) {
+      bucket.day = day;
+      bucket.used = 0;
+    }
+    bucket.tokens = Math.min(limits.burst, bucket.tokens + (now - bucket.updatedAt) * perMs);
+    bucket.updatedAt = now;
+
+    const decision = (allowed: boolean, retryAfterMs: number, reason?: RateDecision['reason']): RateDecision => ({
+      allowed,
+      reason,
+      limit: limits.perMinute,
+      remaining: Math.floor(bucket.tokens),
+      quotaRemaining: limits.daily > 0 ? Math.max(0, limits.daily - bucket.used) : null,
+      retryAfter: Math.ceil(retryAfterMs / 1000),
+    });
+
+    if (limits.daily > 0 && bucket.used >= limits.daily) {
+      return decision(false, Date.parse(`${day}T00:00:00Z`) + 86400000 - now, 'quota');
+    }
+    if (bucket.tokens < 1) {
+      return decision(false, (1 - bucket.tokens) / perMs, 'rate');
+    }
+
+    bucket.tokens -= 1;
+    bucket.fullAt = now + (limits.burst - bucket.tokens) / perMs;
+    if (limits.daily > 0) bucket.used++;
+
+    // Most recently used last; past the cap the least recently used go first
+    this.buckets.delete(client);
+    this.buckets.set(client, bucket);
+    for (const oldest of this.buckets.keys()) {
+      if (this.buckets.size <= this.maxBuckets) break;
+      this.buckets.delete(oldest);
+    }
+    return decision(true, 0);
+  }
+
+  // Forget buckets that have refilled and hold no quota count for today; the
+  // rest go only when the cap pushes them out, so both stay within maxBuckets
+  private sweep(now: number) {
+    if (now - this.sweptAt < SWEEP_INTERVAL_MS) return;
+    this.sweptAt = now;
+    const day = utcDay(now);
+    for (const [client, bucket] of this.buckets) {
+      if (bucket.fullAt <= now && (bucket.used === 0 || bucket.day !== day)) this.buckets.delete(client);
+    }
+  }
+}
+
+function utcDay(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
@@ -0,0 +1,26 @@
+// Next.js gives proxy.ts and the routes the request headers but not the
+// socket, so the server copies each connection's address into a header of its
+// own before Next sees the request. A client sending that header gets it
+// overwritten.
+import http from 'http';
+
+export const REMOTE_ADDRESS_HEADER = 'x-radar-remote-address';
+
+let installed = false;
+
+// Called from instrumentation.ts once the Node.js server starts
+export function recordRemoteAddresses() {
+  if (installed) return;
+  installed = true;
+
+  const emit = http.Server.prototype.emit;
+  http.Server.prototype.emit = function (this: http.Server, event: string | symbol, ...args: unknown[]) {
+    if (event === 'request') {
+      const request = args[0] as http.IncomingMessage;
+      const address = request.socket.remoteAddress;
+      if (address) request.headers[REMOTE_ADDRESS_HEADER] = address;
+      else delete request.headers[REMOTE_ADDRESS_HEADER];
+    }
+    return Reflect.apply(emit, this, [event, ...args]) as boolean;
+  };
+}
@@ -0,0 +1,68 @@
+import { NextRequest } from 'next/server';
+import { getRadarConfig } from './config';
+
+export type GribUpload = { file: Uint8Array; filename: string } | { error: string; status: number };
+
+/**
+ * An uploaded file, sent as multipart form data (field "file") or as the raw
+ * body. Bodies over UPLOAD_MAX_MB are refused with 413, going by
+ * Content-Length when it is sent and otherwise as soon as that much arrives.
+ */
+export async function readGribUpload(request: NextRequest): Promise<GribUpload> {
+  const { maxBytes } = getRadarConfig().upload;
+  const tooLarge = { error: `Uploads are limited to ${Math.floor(maxBytes / 1024 / 1024)} MB`, status: 413 };
+  if (Number(request.headers.get('content-length')) > maxBytes) {
+    return tooLarge;
+  }
+
+  const body = await readBody(request, maxBytes);
+  if (!body) {
+    return tooLarge;
+  }
+
+  let file: Uint8Array;
+  let filename = 'upload.grib2';
+  const contentType = request.headers.get('content-type');
+  if (contentType?.startsWith('multipart/form-data')) {
+    const upload = (await new Response(body, { headers: { 'Content-Type': contentType } }).formData()).get('file');
+    if (!(upload instanceof Blob)) {
+      return { error: 'Form field "file" is missing', status: 400 };
+    }
+    if (upload instanceof File) filename = upload.name;
+    file = new Uint8Array(await upload.arrayBuffer());
+  } else {
+    file = body;
+  }
+
+  if (file.length === 0) {
+    return { error: 'No file was uploaded', status: 400 };
+  }
+  return { file, filename };
+}
+
+// The request body, or null once it runs past maxBytes
+async function readBody(request: NextRequest, maxBytes: number): Promise<Uint8Array<ArrayBuffer> | null> {
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  if (request.body) {
+    const reader = request.body.getReader();
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > maxBytes) {
+        await reader.cancel();
+        return null;
+      }
+      chunks.push(value);
+    }
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return body;
+}
@@ -3,11 +3,19 @@
 import { useState } from 'react';
 import Link from 'next/link';
 import { Header } from '../components/header';
+import type { GribInventory } from '../utils/gribInventory';
+
+type InventoryResponse = GribInventory & { filename: string; sourceUrl: string | null };
+
+const formatBytes = (bytes: number) =>
+  bytes >= 1048576 ? `${(bytes / 1048576).toFixed(2)} MB` : bytes >= 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${bytes} B`;
 
 export default function RadarTestPage() {
   const [isDownloading, setIsDownloading] = useState(false);
   const [metadata, setMetadata] = useState<any>(null);
   const [error, setError] = useState<string | null>(null);
+  const [inventory, setInventory] = useState<InventoryResponse | null>(null);
+  const [isReadingInventory, setIsReadingInventory] = useState(false);
 
   const downloadRadarData = async () => {
     setIsDownloading(true);
@@ -63,6 +71,35 @@ export default function RadarTestPage() {
     }
   };
 
+  // Inventory of the latest file, or of an uploaded one when given
+  const loadInventory = async (file?: File) => {
+    setIsReadingInventory(true);
+    setError(null);
+
+    try {
+      let response: Response;
+      if (file) {
+        const form = new FormData();
+        form.append('file', file);
+        response = await fetch('/api/grib/inventory', { method: 'POST', body: form });
+      } else {
+        response = await fetch('/api/grib/inventory');
+      }
+
+      const body = await response.json();
+      if (!response.ok) {
+        throw new Error(body.details?.reason ? `${body.error}: ${body.details.reason}` : body.error || `HTTP ${response.status}`);
+      }
+      setInventory(body);
+
+    } catch (err) {
+      setInventory(null);
+      setError(err instanceof Error ? err.message : 'Failed to read inventory');
+    } finally {
+      setIsReadingInventory(false);
+    }
+  };
+
   const previewFile = async () => {
     setError(null);
     
@@ -250,6 +287,115 @@ export default function RadarTestPage() {
             </div>
           )}
 
+          {/* GRIB2 Inventory */}
+          <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 overflow-hidden">
+            <div className="bg-gradient-to-r from-indigo-600 to-sky-600 px-6 py-4">
+              <h2 className="text-xl font-semibold text-white flex items-center">
+                <svg className="w-5 h-5 mr-2" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 10h16M4 14h16M4 18h16" />
+                </svg>
+                GRIB2 Inventory
+              </h2>
+              <p className="text-indigo-100 text-sm mt-1">
+                Messages, sections and fields inside a file, like <code>wgrib2 -v</code>
+              </p>
+            </div>
+
+            <div className="p-6 space-y-6">
+              <div className="flex flex-wrap items-center gap-4">
+                <button
+                  onClick={() => loadInventory()}
+                  disabled={isReadingInventory}
+                  className="bg-indigo-600 hover:bg-indigo-700 disabled:bg-indigo-300 text-white px-4 py-2 rounded-lg font-semibold shadow transition-colors"
+                >
+                  {isReadingInventory ? 'Reading...' : 'Inventory Latest File'}
+                </button>
+                <label className="bg-slate-100 hover:bg-slate-200 dark:bg-slate-700 dark:hover:bg-slate-600 text-slate-800 dark:text-slate-200 px-4 py-2 rounded-lg font-semibold shadow cursor-pointer transition-colors">
+                  Inventory Uploaded File
+                  <input
+                    type="file"
+                    accept=".grib2,.grb2,.gz"
+                    className="hidden"
+                    disabled={isReadingInventory}
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) loadInventory(file);
+                      e.target.value = '';
+                    }}
+                  />
+                </label>
+              </div>
+
+              {inventory && (
+                <div className="space-y-3">
+                  <p className="text-sm text-slate-600 dark:text-slate-400">
+                    <span className="font-semibold text-slate-800 dark:text-slate-200">{inventory.filename}</span>
+                    {' · '}{formatBytes(inventory.size)}
+                    {inventory.compressed && ` gzipped, ${formatBytes(inventory.decompressedSize)} decompressed`}
+                    {' · '}{inventory.messages.length} message(s)
+                  </p>
+
+                  <div className="overflow-x-auto">
+                    <table className="min-w-full text-xs text-left">
+                      <thead className="bg-slate-100 dark:bg-slate-700 text-slate-600 dark:text-slate-300">
+                        <tr>
+                          <th className="px-3 py-2">Msg</th>
+                          <th className="px-3 py-2">Parameter</th>
+                          <th className="px-3 py-2">Level</th>
+                          <th className="px-3 py-2">Reference</th>
+                          <th className="px-3 py-2">Valid</th>
+                          <th className="px-3 py-2">Grid</th>
+                          <th className="px-3 py-2">Packing</th>
+                          <th className="px-3 py-2">Bitmap</th>
+                        </tr>
+                      </thead>
+                      <tbody className="divide-y divide-slate-200 dark:divide-slate-700 text-slate-700 dark:text-slate-300">
+                        {inventory.messages.map(message => [
+                          <tr key={`message-${message.index}`} className="bg-slate-50 dark:bg-slate-900/40">
+                            <td className="px-3 py-2 font-semibold">{message.index + 1}</td>
+                            <td className="px-3 py-2 font-mono" colSpan={7}>
+                              GRIB{message.edition} · {formatBytes(message.length)} at byte {message.offset} · discipline {message.discipline}
+                              {' · '}
+                              {message.sections
+                                .map(section => `S${section.number}${section.template !== null ? ` (${section.number}.${section.template})` : ''}: ${section.length}B`)
+                                .join(', ')}
+                              {message.error && <span className="block text-red-600 dark:text-red-400">{message.error}</span>}
+                            </td>
+                          </tr>,
+                          ...message.fields.map(field => (
+                            <tr key={`field-${message.index}-${field.fieldIndex}`}>
+                              <td className="px-3 py-2 text-slate-400">{message.index + 1}.{field.fieldIndex + 1}</td>
+                              <td className="px-3 py-2">
+                                {field.parameter.name} {field.parameter.units && `(${field.parameter.units})`}
+                                <span className="block text-slate-400 font-mono">
+                                  {field.parameter.discipline}-{field.parameter.category}-{field.parameter.number} {field.centre}
+                                </span>
+                              </td>
+                              <td className="px-3 py-2 font-mono">type {field.level.type}{field.level.value !== null && `, ${field.level.value}`}</td>
+                              <td className="px-3 py-2 font-mono">{field.referenceTime.replace('T', ' ').replace('.000Z', 'Z')}</td>
+                              <td className="px-3 py-2 font-mono">{field.validTime.replace('T', ' ').replace('.000Z', 'Z')}</td>
+                              <td className="px-3 py-2 font-mono">
+                                {field.grid.ni}x{field.grid.nj} (3.{field.grid.template})
+                                <span className="block text-slate-400">{field.grid.projection ?? 'unsupported'}</span>
+                              </td>
+                              <td className="px-3 py-2 font-mono">
+                                5.{field.packing.template}, {field.packing.bitsPerValue} bits, {field.packing.numberOfValues} values
+                                <span className="block text-slate-400">
+                                  R={field.packing.referenceValue} E={field.packing.binaryScaleFactor} D={field.packing.decimalScaleFactor}
+                                </span>
+                              </td>
+                              <td className="px-3 py-2 font-mono">{field.bitmap.present ? `yes (${field.bitmap.indicator})` : 'none'}</td>
+                            </tr>
+                          )),
+                        ])}
+                      </tbody>
+                    </table>
+                  </div>
+                </div>
+              )}
+            </div>
+          </div>
+
           {/* Documentation Cards */}
           <div className="grid md:grid-cols-2 gap-8">
             <div className="bg-white dark:bg-slate-800 rounded-xl shadow-xl border border-slate-200 dark:border-slate-700 p-6">
@@ -266,6 +412,18 @@ export default function RadarTestPage() {
                   <code className="block mt-1 text-blue-600 dark:text-blue-400 bg-white dark:bg-slate-800 p-2 rounded">
                     GET /api/download-latest-radar
                   </code>
+                  <code className="block mt-1 text-blue-600 dark:text-blue-400 bg-white dark:bg-slate-800 p-2 rounded">
+                    GET|POST /api/grib/inventory
+                  </code>
+                  <code className="block mt-1 text-blue-600 dark:text-blue-400 bg-white dark:bg-slate-800 p-2 rounded">
+                    GET /api/radar/latest?format=uint8|int16|json|grib2&amp;bbox=w,s,e,n&amp;backend=native|grib2json
+                  </code>
+                  <code className="block mt-1 text-blue-600 dark:text-blue-400 bg-white dark:bg-slate-800 p-2 rounded">
+                    GET|POST /api/grib/crosscheck?tolerance=0.001&amp;bbox=w,s,e,n
+                  </code>
+                  <code className="block mt-1 text-blue-600 dark:text-blue-400 bg-white dark:bg-slate-800 p-2 rounded">
+                    GET /api/radar/files?product=PrecipRate&amp;domain=CONUS
+                  </code>
                 </div>
                 
                 <div>
@@ -273,6 +431,9 @@ export default function RadarTestPage() {
                   <ul className="space-y-1 text-slate-600 dark:text-slate-400">
                     <li>• <code className="text-xs bg-slate-200 dark:bg-slate-600 px-1 rounded">download=true</code> - Force file download</li>
                     <li>• <code className="text-xs bg-slate-200 dark:bg-slate-600 px-1 rounded">filename=custom.grib2.gz</code> - Custom filename</li>
+                    <li>• <code className="text-xs bg-slate-200 dark:bg-slate-600 px-1 rounded">product=PrecipRate</code> - MRMS product (default ReflectivityAtLowestAltitude)</li>
+                    <li>• <code className="text-xs bg-slate-200 dark:bg-slate-600 px-1 rounded">domain=HAWAII</code> - CONUS (default), ALASKA, HAWAII, CARIB or GUAM</li>
+                    <li>• <code className="text-xs bg-slate-200 dark:bg-slate-600 px-1 rounded">time=20261019-120000</code> - File nearest this time (UTC) instead of the latest</li>
                   </ul>
                 </div>
                 
@@ -0,0 +1,64 @@
+/**
+ * Low-level readers for GRIB2 binary fields.
+ *
+ * GRIB2 stores signed integers in sign-and-magnitude form (the most significant
+ * bit is the sign), not two's complement, so DataView.getInt16/getInt32 return
+ * the wrong value for anything negative.
+ */
+
+export function readGribInt8(view: DataView, offset: number): number {
+  const raw = view.getUint8(offset);
+  return raw & 0x80 ? -(raw & 0x7f) : raw;
+}
+
+export function readGribInt16(view: DataView, offset: number): number {
+  const raw = view.getUint16(offset);
+  return raw & 0x8000 ? -(raw & 0x7fff) : raw;
+}
+
+export function readGribInt32(view: DataView, offset: number): number {
+  const raw = view.getUint32(offset);
+  return raw & 0x80000000 ? -(raw & 0x7fffffff) : raw;
+}
+
+// Section 0 stores the message length as a 64-bit integer. Files never come
+// close to 2^53 bytes, so a plain number is safe here.
+export function readGribUint64(view: DataView, offset: number): number {
+  return view.getUint32(offset) * 0x100000000 + view.getUint32(offset + 4);
+}
+
+/**
+ * Read `bitCount` bits (up to 32) starting at `bitOffset`, most significant bit first.
+ */
+export function readBits(data: Uint8Array, bitOffset: number, bitCount: number): number {
+  let value = 0;
+  let position = bitOffset;
+  let remaining = bitCount;
+
+  while (remaining > 0) {
+    const byte = data[position >>> 3] ?? 0;
+    const bitInByte = position & 7;
+    const take = Math.min(8 - bitInByte, remaining);
+    const shift = 8 - bitInByte - take;
+    // Multiply rather than shift so 32-bit values don't wrap negative
+    value = value * (1 << take) + ((byte >>> shift) & ((1 << take) - 1));
+    remaining -= take;
+    position += take;
+  }
+
+  return value;
+}
+
+// Writers for the same sign-and-magnitude layout, used by the encoder
+export function writeGribInt8(view: DataView, offset: number, value: number): void {
+  view.setUint8(offset, value < 0 ? 0x80 | Math.min(-value, 0x7f) : Math.min(value, 0x7f));
+}
+
+export function writeGribInt16(view: DataView, offset: number, value: number): void {
+  view.setUint16(offset, value < 0 ? 0x8000 | Math.min(-value, 0x7fff) : Math.min(value, 0x7fff));
+}
+
+export function writeGribInt32(view: DataView, offset: number, value: number): void {
+  const magnitude = Math.min(Math.abs(value), 0x7fffffff);
+  view.setUint32(offset, value < 0 ? (0x80000000 | magnitude) >>> 0 : magnitude);
+}
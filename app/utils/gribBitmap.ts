@@ -0,0 +1,105 @@
+/**
+ * GRIB2 Section 6 (Bit-map) handling.
+ *
+ * When a bitmap is present, Section 7 only packs values for grid points
+ * whose bit is set, so the packed values have to be spread back out over
+ * the full grid before they line up with Section 3.
+ */
+
+import { GribUnsupportedError } from './gribErrors';
+
+export const BITMAP_PRESENT = 0;
+export const BITMAP_PREVIOUS = 254;
+export const BITMAP_NONE = 255;
+
+export interface Bitmap {
+  indicator: number;
+  bits: Uint8Array | null; // one bit per grid point, most significant bit first
+}
+
+/**
+ * Read Section 6 starting at `offset`. `previous` is the last bitmap defined
+ * earlier in the same message, needed when the indicator is 254.
+ */
+export function readBitmapSection(view: DataView, offset: number, length: number, previous: Bitmap | null): Bitmap {
+  const indicator = view.getUint8(offset + 5);
+
+  if (indicator === BITMAP_PRESENT) {
+    return {
+      indicator,
+      bits: new Uint8Array(view.buffer, view.byteOffset + offset + 6, length - 6),
+    };
+  }
+
+  if (indicator === BITMAP_PREVIOUS) {
+    if (!previous?.bits) {
+      throw new Error('Bitmap indicator 254 used before any bitmap was defined in this message');
+    }
+    return { indicator, bits: previous.bits };
+  }
+
+  if (indicator === BITMAP_NONE) {
+    return { indicator, bits: null };
+  }
+
+  throw new GribUnsupportedError(`Predefined bitmap ${indicator} is not supported`);
+}
+
+export function isBitSet(bits: Uint8Array, index: number): boolean {
+  return ((bits[index >> 3] >> (7 - (index & 7))) & 1) === 1;
+}
+
+/**
+ * Spread the packed values over `gridSize` points. Masked points come back as NaN.
+ */
+export function applyBitmap(packed: Float32Array, bitmap: Bitmap | null, gridSize: number): Float32Array {
+  if (!bitmap?.bits) return packed;
+
+  if (bitmap.bits.length * 8 < gridSize) {
+    throw new Error(`Bitmap covers ${bitmap.bits.length * 8} points, grid has ${gridSize}`);
+  }
+
+  const values = new Float32Array(gridSize);
+  let next = 0;
+  for (let i = 0; i < gridSize; i++) {
+    if (isBitSet(bitmap.bits, i)) {
+      values[i] = next < packed.length ? packed[next] : NaN;
+      next++;
+    } else {
+      values[i] = NaN;
+    }
+  }
+
+  if (next !== packed.length) {
+    console.warn(`⚠️  Bitmap marks ${next} points present but ${packed.length} values were packed`);
+  }
+
+  return values;
+}
+
+/**
+ * Streaming counterpart of applyBitmap: returns a function that hands each
+ * packed value to `store` with the next of `gridSize` points whose bit is
+ * set. Points never stored are the caller's to treat as missing.
+ */
+export function createBitmapWriter(
+  gridSize: number,
+  bitmap: Bitmap | null,
+  store: (point: number, value: number) => void
+): (value: number) => void {
+  let point = 0;
+
+  const bits = bitmap?.bits;
+  if (!bits) {
+    return value => store(point++, value);
+  }
+
+  if (bits.length * 8 < gridSize) {
+    throw new Error(`Bitmap covers ${bits.length * 8} points, grid has ${gridSize}`);
+  }
+
+  return value => {
+    while (point < gridSize && !isBitSet(bits, point)) point++;
+    store(point++, value);
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Field-by-field comparison of two decodes of the same file, used to check
+ * the hand-written decoder against grib2json.
+ */
+
+import { GribField } from './gribProcessor';
+
+export interface HeaderMismatch {
+  name: string;
+  expected: string | number | null; // from the reference decoder
+  actual: string | number | null;
+}
+
+export interface CellDifference {
+  i: number;
+  j: number;
+  lat: number | null;
+  lng: number | null;
+  expected: number | null; // null for a missing cell
+  actual: number | null;
+}
+
+export interface FieldComparison {
+  fieldIndex: number; // position in the file, counting every field of every message
+  headerMismatches: HeaderMismatch[];
+  cellsCompared: number;
+  cellsDiffering: number; // beyond the tolerance, or missing in only one decode
+  missingMismatches: number;
+  maxDifference: number;
+  meanDifference: number;
+  differences: CellDifference[]; // the largest ones, up to maxReported
+}
+
+export interface GribCrossCheckReport {
+  tolerance: number;
+  expectedFields: number;
+  actualFields: number;
+  fields: FieldComparison[];
+  matches: boolean;
+}
+
+export interface GribCrossCheckOptions {
+  tolerance?: number; // largest absolute difference still counted as equal
+  maxReported?: number; // differing cells listed per field
+}
+
+const DEFAULT_TOLERANCE = 1e-3;
+const DEFAULT_MAX_REPORTED = 20;
+const ANGLE_TOLERANCE = 1e-5; // grib2json rounds corners to float
+
+/**
+ * Compare `actual` against `expected` field by field, in file order.
+ */
+export function compareGribFields(
+  expected: GribField[],
+  actual: GribField[],
+  options: GribCrossCheckOptions = {}
+): GribCrossCheckReport {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  const maxReported = options.maxReported ?? DEFAULT_MAX_REPORTED;
+  const fields: FieldComparison[] = [];
+
+  for (let index = 0; index < Math.min(expected.length, actual.length); index++) {
+    fields.push(compareField(index, expected[index], actual[index], tolerance, maxReported));
+  }
+
+  const matches = expected.length === actual.length &&
+    fields.every(field => field.headerMismatches.length === 0 && field.cellsDiffering === 0);
+  return { tolerance, expectedFields: expected.length, actualFields: actual.length, fields, matches };
+}
+
+function compareField(fieldIndex: number, expected: GribField, actual: GribField, tolerance: number, maxReported: number): FieldComparison {
+  const headerMismatches = compareHeaders(expected, actual);
+  const comparison: FieldComparison = {
+    fieldIndex,
+    headerMismatches,
+    cellsCompared: 0,
+    cellsDiffering: 0,
+    missingMismatches: 0,
+    maxDifference: 0,
+    meanDifference: 0,
+    differences: [],
+  };
+
+  const a = expected.grid;
+  const b = actual.grid;
+  if (a.width !== b.width || a.height !== b.height) {
+    return comparison; // already listed as a header mismatch
+  }
+
+  let total = 0;
+  let counted = 0;
+  const largest: { difference: CellDifference; size: number }[] = [];
+  for (let index = 0; index < a.values.length; index++) {
+    const x = a.values[index];
+    const y = b.values[index];
+    comparison.cellsCompared++;
+
+    let size: number;
+    if (Number.isNaN(x) || Number.isNaN(y)) {
+      if (Number.isNaN(x) && Number.isNaN(y)) continue;
+      comparison.missingMismatches++;
+      size = Infinity;
+    } else {
+      size = Math.abs(x - y);
+      total += size;
+      counted++;
+      comparison.maxDifference = Math.max(comparison.maxDifference, size);
+      if (size <= tolerance) continue;
+    }
+
+    comparison.cellsDiffering++;
+    if (largest.length < maxReported || size > largest[largest.length - 1].size) {
+      largest.push({ difference: { ...describeCell(a, index), expected: finiteOrNull(x), actual: finiteOrNull(y) }, size });
+      largest.sort((p, q) => q.size - p.size);
+      largest.length = Math.min(largest.length, maxReported);
+    }
+  }
+
+  comparison.meanDifference = counted > 0 ? total / counted : 0;
+  comparison.differences = largest.map(entry => entry.difference);
+  return comparison;
+}
+
+function compareHeaders(expected: GribField, actual: GribField): HeaderMismatch[] {
+  const mismatches: HeaderMismatch[] = [];
+  const check = (name: string, x: string | number | null, y: string | number | null, equal = x === y) => {
+    if (!equal) mismatches.push({ name, expected: x, actual: y });
+  };
+  const angle = (name: string, x: number, y: number, wrap: boolean) => {
+    const difference = wrap ? Math.abs((((x - y) % 360) + 540) % 360 - 180) : Math.abs(x - y);
+    check(name, x, y, difference <= ANGLE_TOLERANCE);
+  };
+
+  const a = expected.metadata;
+  const b = actual.metadata;
+  check('nx', expected.header.nx, actual.header.nx);
+  check('ny', expected.header.ny, actual.header.ny);
+  angle('la1', expected.header.la1, actual.header.la1, false);
+  angle('lo1', expected.header.lo1, actual.header.lo1, true);
+  angle('la2', expected.header.la2, actual.header.la2, false);
+  angle('lo2', expected.header.lo2, actual.header.lo2, true);
+  check('width', a.width, b.width);
+  check('height', a.height, b.height);
+  check('discipline', a.discipline, b.discipline);
+  check('parameterCategory', a.parameterCategory, b.parameterCategory);
+  check('parameterNumber', a.parameterNumber, b.parameterNumber);
+  check('centre', a.centre, b.centre);
+  check('subCentre', a.subCentre, b.subCentre);
+  check('referenceTime', a.timestamp.toISOString(), b.timestamp.toISOString());
+  check('validTime', a.validTime.toISOString(), b.validTime.toISOString());
+  check('levelType', a.levelType, b.levelType);
+  check('levelValue', a.levelValue, b.levelValue);
+  return mismatches;
+}
+
+function describeCell(grid: GribField['grid'], index: number): Omit<CellDifference, 'expected' | 'actual'> {
+  const i = index % grid.width;
+  const j = Math.floor(index / grid.width);
+  const position = grid.geometry.projection?.cellToLatLon(i, j) ?? null;
+  return { i, j, lat: position?.lat ?? null, lng: position?.lng ?? null };
+}
+
+function finiteOrNull(value: number): number | null {
+  return Number.isNaN(value) ? null : value;
+}
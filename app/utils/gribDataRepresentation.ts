@@ -0,0 +1,177 @@
+/**
+ * GRIB2 Section 5 (Data Representation) reader and Section 7 unpackers.
+ *
+ * Packed integers X are turned back into physical values with
+ *   Y = (R + X * 2^E) / 10^D
+ * where R is the reference value, E the binary scale factor and D the
+ * decimal scale factor from Section 5.
+ */
+
+import { readBits, readGribInt16 } from './gribBinary';
+import { GribUnsupportedError } from './gribErrors';
+import { decodeJpeg2000 } from './jpeg2000Decoder';
+import { decodePng } from './pngDecoder';
+
+export interface DataRepresentation {
+  templateNumber: number; // 0 = simple, 40 = JPEG2000, 41 = PNG
+  numberOfPackedValues: number;
+  referenceValue: number;
+  binaryScaleFactor: number;
+  decimalScaleFactor: number;
+  bitsPerValue: number;
+  originalFieldType: number; // 0 = floating point, 1 = integer
+}
+
+/**
+ * Read Section 5 starting at `offset` (the first byte of the section length).
+ */
+export function readDataRepresentationSection(view: DataView, offset: number): DataRepresentation {
+  const numberOfPackedValues = view.getUint32(offset + 5);
+  const templateNumber = view.getUint16(offset + 9);
+
+  // Templates 5.0, 5.40 and 5.41 share the same leading fields; the
+  // compression type and ratio that follow in 5.40 aren't needed to decode
+  return {
+    templateNumber,
+    numberOfPackedValues,
+    referenceValue: view.getFloat32(offset + 11),
+    binaryScaleFactor: readGribInt16(view, offset + 15),
+    decimalScaleFactor: readGribInt16(view, offset + 17),
+    bitsPerValue: view.getUint8(offset + 19),
+    originalFieldType: view.getUint8(offset + 20),
+  };
+}
+
+/**
+ * Apply the Section 5 scaling to one packed integer.
+ */
+export function createValueScaler(representation: DataRepresentation): (packed: number) => number {
+  const { referenceValue, binaryScaleFactor, decimalScaleFactor } = representation;
+  const binaryFactor = Math.pow(2, binaryScaleFactor);
+  const decimalDivisor = Math.pow(10, decimalScaleFactor);
+
+  return (packed: number) => (referenceValue + packed * binaryFactor) / decimalDivisor;
+}
+
+/**
+ * Unpack template 5.0 (simple packing) at any bit width.
+ * A width of zero means every value equals the reference value.
+ */
+export function unpackSimple(data: Uint8Array, representation: DataRepresentation, count: number): Float32Array {
+  const values = new Float32Array(count);
+  const scale = createValueScaler(representation);
+  const { bitsPerValue } = representation;
+
+  if (bitsPerValue === 0) {
+    values.fill(scale(0));
+    return values;
+  }
+
+  const available = Math.floor((data.length * 8) / bitsPerValue);
+  if (available < count) {
+    throw new Error(`Data section holds ${available} values at ${bitsPerValue} bits, expected ${count}`);
+  }
+
+  if (bitsPerValue === 8) {
+    for (let i = 0; i < count; i++) values[i] = scale(data[i]);
+  } else if (bitsPerValue === 16) {
+    for (let i = 0; i < count; i++) values[i] = scale((data[i * 2] << 8) | data[i * 2 + 1]);
+  } else {
+    for (let i = 0; i < count; i++) values[i] = scale(readBits(data, i * bitsPerValue, bitsPerValue));
+  }
+
+  return values;
+}
+
+export interface SimpleUnpacker {
+  push(data: Uint8Array): void;
+  finish(): void; // throws when the data ran out before every value arrived
+}
+
+/**
+ * Unpack template 5.0 as the data section arrives in pieces, passing each
+ * value to `store` as soon as its bits are complete. Bits left over at the
+ * end of a piece are carried into the next.
+ */
+export function createSimpleUnpacker(
+  representation: DataRepresentation,
+  count: number,
+  store: (value: number) => void
+): SimpleUnpacker {
+  const scale = createValueScaler(representation);
+  const { bitsPerValue } = representation;
+  let carry = 0; // pending bits, kept below 2^40 so plain numbers stay exact
+  let carryBits = 0;
+  let unpacked = 0;
+  let received = 0;
+
+  return {
+    push(data) {
+      received += data.length;
+      if (bitsPerValue === 0) return;
+
+      for (let k = 0; k < data.length && unpacked < count; k++) {
+        carry = carry * 256 + data[k];
+        carryBits += 8;
+        while (carryBits >= bitsPerValue && unpacked < count) {
+          carryBits -= bitsPerValue;
+          const divisor = Math.pow(2, carryBits);
+          const packed = Math.floor(carry / divisor);
+          carry -= packed * divisor;
+          store(scale(packed));
+          unpacked++;
+        }
+      }
+    },
+    finish() {
+      // Constant fields carry no packed data
+      if (bitsPerValue === 0 || received === 0) {
+        const value = scale(0);
+        while (unpacked < count) {
+          store(value);
+          unpacked++;
+        }
+        return;
+      }
+
+      if (unpacked < count) {
+        throw new Error(`Data section holds ${unpacked} values at ${bitsPerValue} bits, expected ${count}`);
+      }
+    },
+  };
+}
+
+/**
+ * Scale integers already extracted by an image codec (templates 5.40 and 5.41).
+ */
+export function scalePackedSamples(samples: ArrayLike<number>, representation: DataRepresentation, count: number): Float32Array {
+  if (samples.length < count) {
+    throw new Error(`Image codec returned ${samples.length} values, expected ${count}`);
+  }
+
+  const values = new Float32Array(count);
+  const scale = createValueScaler(representation);
+  for (let i = 0; i < count; i++) values[i] = scale(samples[i]);
+  return values;
+}
+
+/**
+ * Decode the Section 7 payload according to the Section 5 template.
+ */
+export function unpackDataSection(data: Uint8Array, representation: DataRepresentation, count: number): Float32Array {
+  // Constant fields carry no packed data whatever the template
+  if (representation.bitsPerValue === 0 || data.length === 0) {
+    return new Float32Array(count).fill(createValueScaler(representation)(0));
+  }
+
+  switch (representation.templateNumber) {
+    case 0:
+      return unpackSimple(data, representation, count);
+    case 40:
+      return scalePackedSamples(decodeJpeg2000(data).samples, representation, count);
+    case 41:
+      return scalePackedSamples(decodePng(data).samples, representation, count);
+    default:
+      throw new GribUnsupportedError(`Unsupported data representation template 5.${representation.templateNumber}`);
+  }
+}
@@ -0,0 +1,427 @@
+/**
+ * GRIB2 writer for regular lat/lon grids (template 3.0), one field per
+ * message with product template 4.0 and simple (5.0) or PNG (5.41) packing.
+ *
+ * Values are packed the way the readers unpack them,
+ *   X = round((Y * 10^D - R) / 2^E)
+ * and NaN cells are left out of Section 7 and marked in a bitmap.
+ */
+
+import { deflate } from 'pako';
+import { writeGribInt16, writeGribInt32, writeGribInt8 } from './gribBinary';
+import { BITMAP_NONE, BITMAP_PRESENT } from './gribBitmap';
+import type { ProcessedRadarData } from './gribProcessor';
+import { RadarGrid } from './radarGrid';
+
+export type GribPacking = 'simple' | 'png';
+
+// What Sections 0, 1 and 4 say about the field
+export interface GribEncodeMetadata {
+  referenceTime: Date;
+  discipline?: number; // defaults come from grid.parameter
+  parameterCategory?: number;
+  parameterNumber?: number;
+  centre?: number; // 161 (NSSL MRMS) by default
+  subCentre?: number;
+  generatingProcess?: number; // Code Table 4.3, 0 = analysis
+  forecastTimeUnit?: number; // Code Table 4.4, 0 = minute
+  forecastTime?: number;
+  levelType?: number; // Code Table 4.5, 255 = missing
+  levelValue?: number | null;
+}
+
+export interface GribEncodeOptions {
+  packing?: GribPacking;
+  decimalScaleFactor?: number; // D, digits kept after the decimal point (default 1)
+  bitsPerValue?: number; // fixed width; by default just enough for the range at D
+  bitmap?: boolean; // by default only when some cells are NaN
+  missingValue?: number; // written for NaN cells when bitmap is false
+}
+
+const MRMS_CENTRE = 161;
+const MISSING_UINT32 = 0xffffffff;
+const MAX_BITS = 30;
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface PackedField {
+  values: Float64Array; // scaled by 10^D, present cells only
+  bitmap: Uint8Array | null;
+}
+
+interface Packing {
+  referenceValue: number;
+  binaryScaleFactor: number;
+  bitsPerValue: number;
+  integers: Uint32Array;
+}
+
+/**
+ * Encode one grid as a complete GRIB2 message, "GRIB" through "7777".
+ */
+export function encodeGribMessage(
+  grid: RadarGrid,
+  metadata: GribEncodeMetadata,
+  options: GribEncodeOptions = {}
+): Uint8Array<ArrayBuffer> {
+  const { geometry } = grid;
+  if (geometry.template !== 0 || geometry.projection?.name !== 'Latitude/longitude') {
+    throw new Error(`Only regular lat/lon grids can be encoded, this grid uses template 3.${geometry.template}`);
+  }
+  if (grid.values.length !== grid.width * grid.height) {
+    throw new Error(`Grid holds ${grid.values.length} values, expected ${grid.width} × ${grid.height}`);
+  }
+
+  const packingName = options.packing ?? 'simple';
+  const decimalScaleFactor = options.decimalScaleFactor ?? 1;
+  const field = selectValues(grid, decimalScaleFactor, options);
+  const packing = computePacking(field.values, options.bitsPerValue, packingName);
+
+  const data = packingName === 'png'
+    ? encodePngSamples(packing, field.bitmap ? [field.values.length, 1] : [grid.width, grid.height])
+    : packBits(packing.integers, packing.bitsPerValue);
+
+  const sections = [
+    identificationSection(metadata),
+    gridDefinitionSection(grid),
+    productDefinitionSection(grid, metadata),
+    dataRepresentationSection(field.values.length, packing, decimalScaleFactor, packingName === 'png' ? 41 : 0),
+    bitmapSection(field.bitmap),
+    dataSection(data),
+  ];
+
+  const length = 16 + sections.reduce((total, section) => total + section.length, 0) + 4;
+  const output = new Uint8Array(length);
+  const view = new DataView(output.buffer);
+  output.set([0x47, 0x52, 0x49, 0x42], 0); // "GRIB"
+  view.setUint8(6, metadata.discipline ?? grid.parameter.discipline);
+  view.setUint8(7, 2);
+  view.setUint32(8, Math.floor(length / 2 ** 32));
+  view.setUint32(12, length >>> 0);
+
+  let offset = 16;
+  for (const section of sections) {
+    output.set(section, offset);
+    offset += section.length;
+  }
+  output.set([0x37, 0x37, 0x37, 0x37], offset); // "7777"
+
+  return output;
+}
+
+/**
+ * Encode several grids as one file of back-to-back messages.
+ */
+export function encodeGribFile(
+  fields: { grid: RadarGrid; metadata: GribEncodeMetadata }[],
+  options: GribEncodeOptions = {}
+): Uint8Array<ArrayBuffer> {
+  const messages = fields.map(({ grid, metadata }) => encodeGribMessage(grid, metadata, options));
+  const output = new Uint8Array(messages.reduce((total, message) => total + message.length, 0));
+  let offset = 0;
+  for (const message of messages) {
+    output.set(message, offset);
+    offset += message.length;
+  }
+  return output;
+}
+
+/**
+ * Metadata to write a decoded field back out with, forecast time in minutes.
+ */
+export function metadataFromField(field: ProcessedRadarData): GribEncodeMetadata {
+  const { metadata } = field;
+  return {
+    referenceTime: metadata.timestamp,
+    discipline: metadata.discipline,
+    parameterCategory: metadata.parameterCategory,
+    parameterNumber: metadata.parameterNumber,
+    centre: metadata.centre,
+    subCentre: metadata.subCentre,
+    forecastTimeUnit: 0,
+    forecastTime: Math.round((metadata.validTime.getTime() - metadata.timestamp.getTime()) / 60000),
+    levelType: metadata.levelType,
+    levelValue: metadata.levelValue,
+  };
+}
+
+// Scaled values of the cells that get written, plus the bitmap that says which those are
+function selectValues(grid: RadarGrid, decimalScaleFactor: number, options: GribEncodeOptions): PackedField {
+  const decimalFactor = Math.pow(10, decimalScaleFactor);
+  const size = grid.values.length;
+  let missing = 0;
+  for (let i = 0; i < size; i++) {
+    if (Number.isNaN(grid.values[i])) missing++;
+  }
+
+  const useBitmap = options.bitmap ?? missing > 0;
+  const fill = options.missingValue ?? grid.parameter.missingValues[0];
+  if (!useBitmap && missing > 0 && fill === undefined) {
+    throw new Error(`${missing} cells are missing but no bitmap or missing value was given`);
+  }
+
+  const values = new Float64Array(useBitmap ? size - missing : size);
+  const bitmap = useBitmap ? new Uint8Array(Math.ceil(size / 8)) : null;
+  let count = 0;
+  for (let i = 0; i < size; i++) {
+    const value = grid.values[i];
+    if (Number.isNaN(value)) {
+      if (!bitmap) values[count++] = fill * decimalFactor;
+      continue;
+    }
+    if (bitmap) bitmap[i >> 3] |= 0x80 >> (i & 7);
+    values[count++] = value * decimalFactor;
+  }
+
+  return { values, bitmap };
+}
+
+function computePacking(values: Float64Array, bitsPerValue: number | undefined, packing: GribPacking): Packing {
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    if (values[i] < min) min = values[i];
+    if (values[i] > max) max = values[i];
+  }
+  if (values.length === 0) {
+    min = max = 0;
+  }
+
+  // R is stored as a float32, so round it down to one that doesn't exceed the minimum
+  let referenceValue = Math.fround(min);
+  if (referenceValue > min) {
+    referenceValue = Math.fround(referenceValue - Math.max(Math.abs(referenceValue) * 2 ** -23, 2 ** -149));
+  }
+  const range = max - referenceValue;
+
+  let bits: number;
+  let binaryScaleFactor = 0;
+  if (bitsPerValue !== undefined) {
+    if (!Number.isInteger(bitsPerValue) || bitsPerValue < 0 || bitsPerValue > MAX_BITS) {
+      throw new Error(`bitsPerValue must be a whole number from 0 to ${MAX_BITS}`);
+    }
+    bits = bitsPerValue;
+    // Use the whole width, coarsening or refining the step as the range requires
+    if (bits > 0 && range > 0) {
+      binaryScaleFactor = Math.ceil(Math.log2(range / (2 ** bits - 1)));
+    }
+  } else {
+    bits = range > 0 ? Math.ceil(Math.log2(Math.round(range) + 1)) : 0;
+    if (bits > MAX_BITS) {
+      binaryScaleFactor = bits - MAX_BITS;
+      bits = MAX_BITS;
+    }
+  }
+
+  // PNG samples come in 8, 16, 24 or 32 bits
+  if (packing === 'png') {
+    bits = bits === 0 ? 0 : Math.ceil(bits / 8) * 8;
+  }
+
+  const step = Math.pow(2, binaryScaleFactor);
+  const largest = bits > 0 ? 2 ** bits - 1 : 0;
+  const integers = new Uint32Array(values.length);
+  for (let i = 0; i < values.length; i++) {
+    integers[i] = Math.min(largest, Math.max(0, Math.round((values[i] - referenceValue) / step)));
+  }
+
+  return { referenceValue, binaryScaleFactor, bitsPerValue: bits, integers };
+}
+
+// Big-endian bit stream, each value in `bits` bits, padded to a whole byte
+function packBits(integers: Uint32Array, bits: number): Uint8Array {
+  const output = new Uint8Array(Math.ceil((integers.length * bits) / 8));
+  if (bits === 0) return output;
+
+  let bitOffset = 0;
+  for (let i = 0; i < integers.length; i++) {
+    const value = integers[i];
+    // Fill the current byte with as many of the remaining high bits as fit
+    let remaining = bits;
+    while (remaining > 0) {
+      const free = 8 - (bitOffset & 7);
+      const take = Math.min(free, remaining);
+      remaining -= take;
+      output[bitOffset >> 3] |= ((value >>> remaining) & ((1 << take) - 1)) << (free - take);
+      bitOffset += take;
+    }
+  }
+  return output;
+}
+
+/**
+ * Packed integers as a PNG: greyscale at 8 or 16 bits, RGB at 24 and RGBA at
+ * 32. With a bitmap the image is one row of the present values.
+ */
+function encodePngSamples(packing: Packing, [width, height]: [number, number]): Uint8Array {
+  const { integers, bitsPerValue } = packing;
+  if (bitsPerValue === 0) return new Uint8Array(0);
+
+  const bytesPerSample = bitsPerValue / 8;
+  const rowLength = 1 + width * bytesPerSample;
+  const raw = new Uint8Array(rowLength * height);
+  for (let j = 0; j < height; j++) {
+    // Filter type 0 (none) leads each row
+    for (let i = 0; i < width; i++) {
+      const value = integers[j * width + i];
+      const start = j * rowLength + 1 + i * bytesPerSample;
+      for (let b = 0; b < bytesPerSample; b++) {
+        raw[start + b] = Math.floor(value / 2 ** (8 * (bytesPerSample - 1 - b))) & 0xff;
+      }
+    }
+  }
+
+  const header = new Uint8Array(13);
+  const headerView = new DataView(header.buffer);
+  headerView.setUint32(0, width);
+  headerView.setUint32(4, height);
+  header[8] = bitsPerValue <= 16 ? bitsPerValue : 8;
+  header[9] = bitsPerValue <= 16 ? 0 : bitsPerValue === 24 ? 2 : 6;
+
+  const chunks = [pngChunk('IHDR', header), pngChunk('IDAT', deflate(raw)), pngChunk('IEND', new Uint8Array(0))];
+  const output = new Uint8Array(PNG_SIGNATURE.length + chunks.reduce((total, chunk) => total + chunk.length, 0));
+  output.set(PNG_SIGNATURE, 0);
+  let offset = PNG_SIGNATURE.length;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
+
+function pngChunk(type: string, data: Uint8Array): Uint8Array {
+  const chunk = new Uint8Array(12 + data.length);
+  const view = new DataView(chunk.buffer);
+  view.setUint32(0, data.length);
+  for (let i = 0; i < 4; i++) chunk[4 + i] = type.charCodeAt(i);
+  chunk.set(data, 8);
+  view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+  return chunk;
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xffffffff;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+// Section header: length (4 bytes) and number (1 byte)
+function createSection(number: number, length: number): { bytes: Uint8Array; view: DataView } {
+  const bytes = new Uint8Array(length);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, length);
+  view.setUint8(4, number);
+  return { bytes, view };
+}
+
+function identificationSection(metadata: GribEncodeMetadata): Uint8Array {
+  const { bytes, view } = createSection(1, 21);
+  const time = metadata.referenceTime;
+  view.setUint16(5, metadata.centre ?? MRMS_CENTRE);
+  view.setUint16(7, metadata.subCentre ?? 0);
+  view.setUint8(9, 2); // master tables version
+  view.setUint8(10, 1); // local tables version
+  view.setUint8(11, (metadata.forecastTime ?? 0) === 0 ? 0 : 1); // analysis, or start of forecast
+  view.setUint16(12, time.getUTCFullYear());
+  view.setUint8(14, time.getUTCMonth() + 1);
+  view.setUint8(15, time.getUTCDate());
+  view.setUint8(16, time.getUTCHours());
+  view.setUint8(17, time.getUTCMinutes());
+  view.setUint8(18, time.getUTCSeconds());
+  view.setUint8(19, 0); // operational products
+  view.setUint8(20, 0); // analysis products
+  return bytes;
+}
+
+function gridDefinitionSection(grid: RadarGrid): Uint8Array {
+  const { bytes, view } = createSection(3, 72);
+  const { geometry } = grid;
+  view.setUint32(6, grid.width * grid.height);
+  view.setUint16(12, 0);
+  view.setUint8(14, 6); // spherical earth of radius 6,371,229 m
+  view.setUint32(30, grid.width);
+  view.setUint32(34, grid.height);
+  view.setUint32(42, MISSING_UINT32); // subdivisions of the basic angle, missing means microdegrees
+  writeGribInt32(view, 46, microdegrees(geometry.la1));
+  view.setUint32(50, microdegrees(positiveLongitude(geometry.lo1)));
+  view.setUint8(54, 0x30); // i and j increments given
+  writeGribInt32(view, 55, microdegrees(geometry.la2));
+  view.setUint32(59, microdegrees(positiveLongitude(geometry.lo2)));
+  view.setUint32(63, microdegrees(Math.abs(geometry.di)));
+  view.setUint32(67, microdegrees(Math.abs(geometry.dj)));
+  view.setUint8(71, geometry.scanningMode);
+  return bytes;
+}
+
+function productDefinitionSection(grid: RadarGrid, metadata: GribEncodeMetadata): Uint8Array {
+  const { bytes, view } = createSection(4, 34);
+  view.setUint16(7, 0);
+  view.setUint8(9, metadata.parameterCategory ?? grid.parameter.category);
+  view.setUint8(10, metadata.parameterNumber ?? grid.parameter.number);
+  view.setUint8(11, metadata.generatingProcess ?? 0);
+  view.setUint8(12, 0xff); // background and forecast process identifiers
+  view.setUint8(13, 0xff);
+  view.setUint8(17, metadata.forecastTimeUnit ?? 0);
+  writeGribInt32(view, 18, metadata.forecastTime ?? 0);
+  view.setUint8(22, metadata.levelType ?? 255);
+  writeScaledValue(view, 23, metadata.levelValue ?? null);
+  view.setUint8(28, 255); // no second surface
+  writeScaledValue(view, 29, null);
+  return bytes;
+}
+
+function dataRepresentationSection(count: number, packing: Packing, decimalScaleFactor: number, template: number): Uint8Array {
+  const { bytes, view } = createSection(5, 21);
+  view.setUint32(5, count);
+  view.setUint16(9, template);
+  view.setFloat32(11, packing.referenceValue);
+  writeGribInt16(view, 15, packing.binaryScaleFactor);
+  writeGribInt16(view, 17, decimalScaleFactor);
+  view.setUint8(19, packing.bitsPerValue);
+  view.setUint8(20, 0); // floating point
+  return bytes;
+}
+
+function bitmapSection(bitmap: Uint8Array | null): Uint8Array {
+  const { bytes, view } = createSection(6, 6 + (bitmap?.length ?? 0));
+  view.setUint8(5, bitmap ? BITMAP_PRESENT : BITMAP_NONE);
+  if (bitmap) bytes.set(bitmap, 6);
+  return bytes;
+}
+
+function dataSection(data: Uint8Array): Uint8Array {
+  const { bytes } = createSection(7, 5 + data.length);
+  bytes.set(data, 5);
+  return bytes;
+}
+
+// Scale factor (1 byte) and scaled value (4 bytes), with as few decimals as represent the value
+function writeScaledValue(view: DataView, offset: number, value: number | null): void {
+  if (value === null) {
+    view.setUint8(offset, 0xff);
+    view.setUint32(offset + 1, MISSING_UINT32);
+    return;
+  }
+
+  let scale = 0;
+  while (scale < 9 && Math.abs(value * 10 ** scale - Math.round(value * 10 ** scale)) > 1e-9) scale++;
+  writeGribInt8(view, offset, scale);
+  writeGribInt32(view, offset + 1, Math.round(value * 10 ** scale));
+}
+
+function microdegrees(degrees: number): number {
+  return Math.round(degrees * 1e6);
+}
+
+function positiveLongitude(lng: number): number {
+  return ((lng % 360) + 360) % 360;
+}
@@ -0,0 +1,97 @@
+/**
+ * Errors raised while decoding GRIB2 data.
+ *
+ * Every error records the section and byte offset where decoding stopped,
+ * so a bad file can be checked against a hex dump. The offset is measured
+ * in the decompressed data, except for GribCompressionError where it counts
+ * the compressed bytes read so far.
+ */
+
+export class GribDecodeError extends Error {
+  readonly section: number | null; // GRIB2 section number, 0 for the indicator
+  readonly offset: number | null;
+  readonly reason: string;
+
+  constructor(reason: string, section: number | null = null, offset: number | null = null, options?: ErrorOptions) {
+    super(`${describeLocation(section, offset)}${reason}`, options);
+    this.name = 'GribDecodeError';
+    this.section = section;
+    this.offset = offset;
+    this.reason = reason;
+  }
+}
+
+// The gzip wrapper around the file could not be inflated
+export class GribCompressionError extends GribDecodeError {
+  constructor(reason: string, section: number | null = null, offset: number | null = null, options?: ErrorOptions) {
+    super(reason, section, offset, options);
+    this.name = 'GribCompressionError';
+  }
+}
+
+// The bytes do not follow the GRIB2 layout: bad magic, lengths or section order
+export class GribFormatError extends GribDecodeError {
+  constructor(reason: string, section: number | null = null, offset: number | null = null, options?: ErrorOptions) {
+    super(reason, section, offset, options);
+    this.name = 'GribFormatError';
+  }
+}
+
+// Valid GRIB that uses an edition or template this decoder does not implement
+export class GribUnsupportedError extends GribDecodeError {
+  constructor(reason: string, section: number | null = null, offset: number | null = null, options?: ErrorOptions) {
+    super(reason, section, offset, options);
+    this.name = 'GribUnsupportedError';
+  }
+}
+
+/**
+ * Pin an error thrown while reading a section to that section. Decode errors
+ * raised without a location keep their class; anything else becomes a plain
+ * GribDecodeError with the original as its cause.
+ */
+export function locateGribError(error: unknown, section: number, offset: number): GribDecodeError {
+  if (error instanceof GribDecodeError) {
+    if (error.section !== null) return error;
+    const ErrorClass = error.constructor as typeof GribDecodeError;
+    return new ErrorClass(error.reason, section, offset, { cause: error.cause });
+  }
+
+  const reason = error instanceof Error ? error.message : String(error);
+  return new GribDecodeError(reason, section, offset, { cause: error });
+}
+
+// Decode errors lose their class when posted between threads, so they travel as plain data
+export interface SerializedGribError {
+  name: string;
+  reason: string;
+  section: number | null;
+  offset: number | null;
+}
+
+const ERROR_CLASSES: Record<string, typeof GribDecodeError> = {
+  GribDecodeError,
+  GribCompressionError,
+  GribFormatError,
+  GribUnsupportedError,
+};
+
+export function serializeGribError(error: unknown): SerializedGribError {
+  if (error instanceof GribDecodeError) {
+    return { name: error.name, reason: error.reason, section: error.section, offset: error.offset };
+  }
+  const reason = error instanceof Error ? error.message : String(error);
+  return { name: 'GribDecodeError', reason, section: null, offset: null };
+}
+
+export function deserializeGribError({ name, reason, section, offset }: SerializedGribError): GribDecodeError {
+  const ErrorClass = ERROR_CLASSES[name] ?? GribDecodeError;
+  return new ErrorClass(reason, section, offset);
+}
+
+function describeLocation(section: number | null, offset: number | null): string {
+  if (section === null && offset === null) return '';
+  if (section === null) return `At byte ${offset}: `;
+  if (offset === null) return `Section ${section}: `;
+  return `Section ${section} at byte ${offset}: `;
+}
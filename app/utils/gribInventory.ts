@@ -0,0 +1,251 @@
+/**
+ * GRIB2 inventory: what each message and section of a file holds, in the
+ * spirit of `wgrib2 -v`. Only the small metadata sections are read; data
+ * sections are measured but never unpacked.
+ */
+
+import { BITMAP_NONE, BITMAP_PREVIOUS, readBitmapSection } from './gribBitmap';
+import { readGribUint64 } from './gribBinary';
+import { DataRepresentation, readDataRepresentationSection } from './gribDataRepresentation';
+import { GribCompressionError, GribFormatError, locateGribError } from './gribErrors';
+import {
+  centreName,
+  computeValidTime,
+  GribIdentification,
+  GribProductDefinition,
+  readIdentificationSection,
+  readProductDefinitionSection,
+} from './gribMetadata';
+import { lookupParameter } from './gribParameters';
+import { GridDefinition, readGridDefinitionSection } from './gribProjection';
+import { createInflater } from './gribStream';
+
+export interface GribInventorySection {
+  number: number;
+  offset: number; // in the decompressed file
+  length: number;
+  template: number | null; // for Sections 3, 4 and 5
+}
+
+export interface GribInventoryField {
+  fieldIndex: number;
+  referenceTime: string; // ISO 8601, so the inventory survives JSON unchanged
+  validTime: string;
+  forecast: { time: number; unit: number }; // unit from Code Table 4.4, 0 = minute, 1 = hour
+  centre: string;
+  parameter: { discipline: number; category: number; number: number; name: string; shortName: string; units: string };
+  level: { type: number; value: number | null };
+  grid: { template: number; ni: number; nj: number; projection: string | null };
+  packing: {
+    template: number;
+    numberOfValues: number;
+    referenceValue: number;
+    binaryScaleFactor: number;
+    decimalScaleFactor: number;
+    bitsPerValue: number;
+  };
+  bitmap: { indicator: number; present: boolean };
+  dataLength: number; // bytes of packed data in Section 7
+}
+
+export interface GribInventoryMessage {
+  index: number;
+  offset: number;
+  length: number;
+  edition: number;
+  discipline: number;
+  sections: GribInventorySection[];
+  fields: GribInventoryField[];
+  error: string | null; // why the rest of the message could not be read
+}
+
+export interface GribInventory {
+  size: number; // bytes as received
+  decompressedSize: number;
+  compressed: boolean;
+  messages: GribInventoryMessage[];
+}
+
+// The sections a field is built from, replaced as later ones repeat
+interface InventoryState {
+  identification: GribIdentification | null;
+  grid: GridDefinition | null;
+  product: GribProductDefinition | null;
+  representation: DataRepresentation | null;
+  bitmapIndicator: number;
+}
+
+/**
+ * List every message in a GRIB2 file, gzipped or not. A message that can't
+ * be read keeps whatever was listed before the problem, plus the error.
+ */
+export function readGribInventory(file: Uint8Array): GribInventory {
+  const compressed = file.length >= 2 && file[0] === 0x1f && file[1] === 0x8b;
+  const bytes = compressed ? gunzip(file) : file;
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const messages: GribInventoryMessage[] = [];
+
+  let offset = findMagic(bytes, 0);
+  if (offset !== 0) {
+    throw new GribFormatError(`Not a GRIB file, magic string is "${new TextDecoder().decode(bytes.subarray(0, 4))}"`, 0, 0);
+  }
+
+  while (offset >= 0 && offset + 16 <= bytes.length) {
+    const edition = bytes[offset + 7];
+    // GRIB1 keeps a 3-byte length right after the magic
+    const length = edition === 2 ? readGribUint64(view, offset + 8) : (bytes[offset + 4] << 16) | (bytes[offset + 5] << 8) | bytes[offset + 6];
+    const message: GribInventoryMessage = {
+      index: messages.length,
+      offset,
+      length,
+      edition,
+      discipline: bytes[offset + 6],
+      sections: [{ number: 0, offset, length: 16, template: null }],
+      fields: [],
+      error: null,
+    };
+    messages.push(message);
+
+    if (edition !== 2) {
+      message.error = `GRIB edition ${edition} is not supported`;
+    } else {
+      try {
+        readMessageSections(view, message);
+      } catch (error) {
+        message.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    offset = findMagic(bytes, offset + Math.max(length, 4));
+  }
+
+  return { size: file.length, decompressedSize: bytes.length, compressed, messages };
+}
+
+function readMessageSections(view: DataView, message: GribInventoryMessage): void {
+  const end = message.offset + message.length;
+  if (message.length < 20 || end > view.byteLength) {
+    throw new GribFormatError(`Message declares ${message.length} bytes but only ${view.byteLength - message.offset} are present`, 0, message.offset);
+  }
+
+  const state: InventoryState = { identification: null, grid: null, product: null, representation: null, bitmapIndicator: BITMAP_NONE };
+  let offset = message.offset + 16;
+
+  // Stop at the end section ("7777") or when only it could fit
+  while (offset + 4 < end && view.getUint32(offset) !== 0x37373737) {
+    const length = view.getUint32(offset);
+    const number = view.getUint8(offset + 4);
+    if (length < 5 || offset + length > end) {
+      throw new GribFormatError(`Invalid section length ${length}`, number, offset);
+    }
+
+    const entry: GribInventorySection = { number, offset, length, template: null };
+    message.sections.push(entry);
+    try {
+      readSection(view, offset, length, number, entry, message, state);
+    } catch (error) {
+      throw locateGribError(error, number, offset);
+    }
+    offset += length;
+  }
+}
+
+function readSection(
+  view: DataView,
+  offset: number,
+  length: number,
+  number: number,
+  entry: GribInventorySection,
+  message: GribInventoryMessage,
+  state: InventoryState
+): void {
+  switch (number) {
+    case 1:
+      state.identification = readIdentificationSection(view, offset);
+      break;
+    case 3:
+      state.grid = readGridDefinitionSection(view, offset);
+      entry.template = state.grid.template;
+      break;
+    case 4:
+      state.product = readProductDefinitionSection(view, offset);
+      entry.template = state.product.template;
+      break;
+    case 5:
+      state.representation = readDataRepresentationSection(view, offset);
+      entry.template = state.representation.templateNumber;
+      break;
+    case 6:
+      // Indicator 254 reuses an earlier bitmap, so only the indicator is kept
+      state.bitmapIndicator = view.getUint8(offset + 5);
+      if (state.bitmapIndicator !== BITMAP_PREVIOUS) readBitmapSection(view, offset, length, null);
+      break;
+    case 7:
+      message.fields.push(describeField(message, state, length - 5));
+      break;
+    default:
+      break; // Section 2 (local use) is listed but not read
+  }
+}
+
+function describeField(message: GribInventoryMessage, state: InventoryState, dataLength: number): GribInventoryField {
+  const { identification, grid, product, representation, bitmapIndicator } = state;
+  if (!identification || !grid || !product || !representation) {
+    throw new GribFormatError('Data section found before identification, grid, product or data representation section');
+  }
+
+  const parameter = lookupParameter(message.discipline, product.parameterCategory, product.parameterNumber);
+  return {
+    fieldIndex: message.fields.length,
+    referenceTime: identification.referenceTime.toISOString(),
+    validTime: computeValidTime(identification.referenceTime, product).toISOString(),
+    forecast: { time: product.forecastTime, unit: product.forecastTimeUnit },
+    centre: centreName(identification.centre),
+    parameter: {
+      discipline: message.discipline,
+      category: product.parameterCategory,
+      number: product.parameterNumber,
+      name: parameter.name,
+      shortName: parameter.shortName,
+      units: parameter.units,
+    },
+    level: { type: product.levelType, value: product.levelValue },
+    grid: { template: grid.template, ni: grid.ni, nj: grid.nj, projection: grid.projection?.name ?? null },
+    packing: {
+      template: representation.templateNumber,
+      numberOfValues: representation.numberOfPackedValues,
+      referenceValue: representation.referenceValue,
+      binaryScaleFactor: representation.binaryScaleFactor,
+      decimalScaleFactor: representation.decimalScaleFactor,
+      bitsPerValue: representation.bitsPerValue,
+    },
+    bitmap: { indicator: bitmapIndicator, present: bitmapIndicator !== BITMAP_NONE },
+    dataLength,
+  };
+}
+
+function findMagic(bytes: Uint8Array, from: number): number {
+  for (let i = from; i + 4 <= bytes.length; i++) {
+    if (bytes[i] === 0x47 && bytes[i + 1] === 0x52 && bytes[i + 2] === 0x49 && bytes[i + 3] === 0x42) return i;
+  }
+  return -1;
+}
+
+function gunzip(file: Uint8Array): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const inflater = createInflater(chunk => chunks.push(chunk));
+  try {
+    inflater.push(file);
+    inflater.end();
+  } catch (error) {
+    throw new GribCompressionError(`Failed to decompress gzipped file: ${error instanceof Error ? error.message : error}`, null, null, { cause: error });
+  }
+
+  const output = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    output.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return output;
+}
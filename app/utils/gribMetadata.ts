@@ -0,0 +1,142 @@
+/**
+ * GRIB2 Section 1 (Identification) and Section 4 (Product Definition) readers.
+ *
+ * Section 1 gives the originating centre and the reference time; Section 4
+ * says which parameter the field holds, at which level, and how far past
+ * the reference time it is valid.
+ */
+
+import { readGribInt32, readGribInt8 } from './gribBinary';
+
+export interface GribIdentification {
+  centre: number;
+  subCentre: number;
+  masterTableVersion: number;
+  localTableVersion: number;
+  referenceTime: Date;
+  productionStatus: number;
+  dataType: number;
+}
+
+export interface GribProductDefinition {
+  template: number;
+  parameterCategory: number;
+  parameterNumber: number;
+  generatingProcess: number;
+  forecastTimeUnit: number;
+  forecastTime: number;
+  levelType: number;
+  levelValue: number | null;
+  intervalEnd: Date | null; // end of the statistical period for template 4.8
+}
+
+// Common Code Table C-11, only the centres we expect to see
+const CENTRE_NAMES: Record<number, string> = {
+  7: 'US NOAA/NCEP',
+  8: 'US NWS Telecommunications Gateway',
+  54: 'Canadian Meteorological Service',
+  59: 'NOAA Global Systems Laboratory',
+  60: 'NCAR',
+  98: 'ECMWF',
+  161: 'US NOAA/OAR (NSSL MRMS)',
+};
+
+// Code Table 4.4 units that map to a fixed number of seconds
+const SECONDS_PER_TIME_UNIT: Record<number, number> = {
+  0: 60,
+  1: 3600,
+  2: 86400,
+  10: 3 * 3600,
+  11: 6 * 3600,
+  12: 12 * 3600,
+  13: 1,
+};
+
+export function centreName(centre: number): string {
+  return CENTRE_NAMES[centre] ?? `Centre ${centre}`;
+}
+
+export function readIdentificationSection(view: DataView, offset: number): GribIdentification {
+  return {
+    centre: view.getUint16(offset + 5),
+    subCentre: view.getUint16(offset + 7),
+    masterTableVersion: view.getUint8(offset + 9),
+    localTableVersion: view.getUint8(offset + 10),
+    referenceTime: readGribTime(view, offset + 12),
+    productionStatus: view.getUint8(offset + 19),
+    dataType: view.getUint8(offset + 20),
+  };
+}
+
+export function readProductDefinitionSection(view: DataView, offset: number): GribProductDefinition {
+  const template = view.getUint16(offset + 7);
+  const definition: GribProductDefinition = {
+    template,
+    parameterCategory: view.getUint8(offset + 9),
+    parameterNumber: view.getUint8(offset + 10),
+    generatingProcess: view.getUint8(offset + 11),
+    forecastTimeUnit: 255,
+    forecastTime: 0,
+    levelType: 255,
+    levelValue: null,
+    intervalEnd: null,
+  };
+
+  // Templates 4.0 - 4.15 share the time and first-surface layout
+  if (template > 15) {
+    return definition;
+  }
+
+  definition.forecastTimeUnit = view.getUint8(offset + 17);
+  definition.forecastTime = readGribInt32(view, offset + 18);
+  definition.levelType = view.getUint8(offset + 22);
+  definition.levelValue = readScaledValue(view, offset + 23);
+
+  if (template === 8) {
+    definition.intervalEnd = readGribTime(view, offset + 34);
+  }
+
+  return definition;
+}
+
+/**
+ * When the field is valid: the end of the statistical period for template
+ * 4.8, otherwise the reference time plus the forecast offset.
+ */
+export function computeValidTime(referenceTime: Date, product: GribProductDefinition): Date {
+  if (product.intervalEnd) {
+    return product.intervalEnd;
+  }
+
+  const seconds = SECONDS_PER_TIME_UNIT[product.forecastTimeUnit];
+  if (seconds !== undefined) {
+    return new Date(referenceTime.getTime() + product.forecastTime * seconds * 1000);
+  }
+
+  const validTime = new Date(referenceTime.getTime());
+  if (product.forecastTimeUnit === 3) {
+    validTime.setUTCMonth(validTime.getUTCMonth() + product.forecastTime);
+  } else if (product.forecastTimeUnit === 4) {
+    validTime.setUTCFullYear(validTime.getUTCFullYear() + product.forecastTime);
+  }
+  return validTime;
+}
+
+function readGribTime(view: DataView, offset: number): Date {
+  return new Date(Date.UTC(
+    view.getUint16(offset),
+    view.getUint8(offset + 2) - 1,
+    view.getUint8(offset + 3),
+    view.getUint8(offset + 4),
+    view.getUint8(offset + 5),
+    view.getUint8(offset + 6)
+  ));
+}
+
+// Scale factor (1 byte) followed by scaled value (4 bytes); all ones means missing
+function readScaledValue(view: DataView, offset: number): number | null {
+  if (view.getUint32(offset + 1) === 0xffffffff) return null;
+  const value = readGribInt32(view, offset + 1);
+  if (view.getUint8(offset) === 0xff) return value;
+  return value / Math.pow(10, readGribInt8(view, offset));
+}
@@ -0,0 +1,182 @@
+/**
+ * GRIB2 parameter tables: WMO master table 4.2 entries likely to turn up next
+ * to radar data, plus the NSSL MRMS local table (discipline 209).
+ *
+ * Each entry says what a decoded value means (name, units), which values are
+ * sentinels rather than data, and the range a colour scale should span.
+ */
+
+export interface GribParameter {
+  discipline: number;
+  category: number;
+  number: number;
+  name: string;
+  shortName: string;
+  units: string;
+  missingValues: number[]; // sentinel values that mark missing or no-coverage cells
+  range: { min: number; max: number }; // default display range
+}
+
+type ParameterEntry = Omit<GribParameter, 'discipline' | 'category' | 'number'>;
+
+// MRMS writes -999 for missing and -99 for outside radar coverage
+const MRMS_MISSING = [-999, -99];
+// MRMS precipitation products use -3 for no coverage and -1 for missing
+const MRMS_PRECIP_MISSING = [-3, -1];
+
+const REFLECTIVITY_RANGE = { min: -30, max: 80 };
+
+const reflectivity = (shortName: string, name: string): ParameterEntry => ({
+  name,
+  shortName,
+  units: 'dBZ',
+  missingValues: MRMS_MISSING,
+  range: REFLECTIVITY_RANGE,
+});
+
+const radarOnlyAccumulation = (hours: number): ParameterEntry => ({
+  name: `Radar-only QPE (${hours} h)`,
+  shortName: `RadarOnly_QPE_${String(hours).padStart(2, '0')}H`,
+  units: 'mm',
+  missingValues: MRMS_PRECIP_MISSING,
+  range: { min: 0, max: hours <= 1 ? 50 : hours <= 6 ? 100 : 250 },
+});
+
+const rotationTrack = (minutes: number): ParameterEntry => ({
+  name: `Rotation track (${minutes} min)`,
+  shortName: `RotationTrack${minutes}min`,
+  units: '0.001/s',
+  missingValues: MRMS_MISSING,
+  range: { min: 0, max: 20 },
+});
+
+const meshMax = (minutes: number): ParameterEntry => ({
+  name: `Maximum estimated hail size (${minutes} min)`,
+  shortName: `MESH_Max_${minutes}min`,
+  units: 'mm',
+  missingValues: MRMS_MISSING,
+  range: { min: 0, max: 100 },
+});
+
+// Keyed by "discipline-category-number"
+const PARAMETERS: Record<string, ParameterEntry> = {
+  // WMO discipline 0, category 0: temperature
+  '0-0-0': { name: 'Temperature', shortName: 'TMP', units: 'K', missingValues: [], range: { min: 220, max: 320 } },
+  // Category 1: moisture
+  '0-1-1': { name: 'Relative humidity', shortName: 'RH', units: '%', missingValues: [], range: { min: 0, max: 100 } },
+  '0-1-7': { name: 'Precipitation rate', shortName: 'PRATE', units: 'kg m⁻² s⁻¹', missingValues: [], range: { min: 0, max: 0.03 } },
+  '0-1-8': { name: 'Total precipitation', shortName: 'APCP', units: 'kg m⁻²', missingValues: [], range: { min: 0, max: 100 } },
+  // Category 2: momentum
+  '0-2-1': { name: 'Wind speed', shortName: 'WIND', units: 'm/s', missingValues: [], range: { min: 0, max: 50 } },
+  '0-2-2': { name: 'U-component of wind', shortName: 'UGRD', units: 'm/s', missingValues: [], range: { min: -50, max: 50 } },
+  '0-2-3': { name: 'V-component of wind', shortName: 'VGRD', units: 'm/s', missingValues: [], range: { min: -50, max: 50 } },
+  // Category 3: mass
+  '0-3-0': { name: 'Pressure', shortName: 'PRES', units: 'Pa', missingValues: [], range: { min: 50000, max: 105000 } },
+  '0-3-1': { name: 'Pressure reduced to MSL', shortName: 'PRMSL', units: 'Pa', missingValues: [], range: { min: 95000, max: 105000 } },
+  '0-3-5': { name: 'Geopotential height', shortName: 'HGT', units: 'gpm', missingValues: [], range: { min: 0, max: 12000 } },
+  // Category 7: thermodynamic stability
+  '0-7-6': { name: 'Convective available potential energy', shortName: 'CAPE', units: 'J/kg', missingValues: [], range: { min: 0, max: 5000 } },
+  // Category 15: radar
+  '0-15-0': { name: 'Base spectrum width', shortName: 'BSWID', units: 'm/s', missingValues: [], range: { min: 0, max: 20 } },
+  '0-15-1': { name: 'Base reflectivity', shortName: 'BREF', units: 'dB', missingValues: [], range: REFLECTIVITY_RANGE },
+  '0-15-2': { name: 'Base radial velocity', shortName: 'BRVEL', units: 'm/s', missingValues: [], range: { min: -50, max: 50 } },
+  '0-15-3': { name: 'Vertically integrated liquid', shortName: 'VIL', units: 'kg m⁻²', missingValues: [], range: { min: 0, max: 80 } },
+  '0-15-4': { name: 'Layer maximum base reflectivity', shortName: 'LMAXBR', units: 'dB', missingValues: [], range: REFLECTIVITY_RANGE },
+  '0-15-5': { name: 'Precipitation', shortName: 'PREC', units: 'kg m⁻²', missingValues: [], range: { min: 0, max: 100 } },
+  // Category 16: forecast radar imagery
+  '0-16-3': { name: 'Echo top', shortName: 'RETOP', units: 'm', missingValues: [], range: { min: 0, max: 18000 } },
+  '0-16-4': { name: 'Reflectivity', shortName: 'REFD', units: 'dB', missingValues: [], range: REFLECTIVITY_RANGE },
+  '0-16-5': { name: 'Composite reflectivity', shortName: 'REFC', units: 'dB', missingValues: [], range: REFLECTIVITY_RANGE },
+  // Category 17: electrodynamics
+  '0-17-0': { name: 'Lightning strike density', shortName: 'LTNGSD', units: 'm⁻² s⁻¹', missingValues: [], range: { min: 0, max: 1e-6 } },
+  // Category 19: physical atmospheric properties
+  '0-19-0': { name: 'Visibility', shortName: 'VIS', units: 'm', missingValues: [], range: { min: 0, max: 20000 } },
+
+  // MRMS category 0: 3D reflectivity
+  '209-0-0': reflectivity('MergedReflectivityQC', 'Merged reflectivity (QC)'),
+
+  // MRMS category 2: lightning
+  '209-2-0': { name: 'CG lightning density (1 min)', shortName: 'NLDN_CG_001min_AvgDensity', units: 'flashes/km²/min', missingValues: MRMS_MISSING, range: { min: 0, max: 1 } },
+  '209-2-1': { name: 'CG lightning density (5 min)', shortName: 'NLDN_CG_005min_AvgDensity', units: 'flashes/km²/min', missingValues: MRMS_MISSING, range: { min: 0, max: 1 } },
+  '209-2-2': { name: 'CG lightning density (15 min)', shortName: 'NLDN_CG_015min_AvgDensity', units: 'flashes/km²/min', missingValues: MRMS_MISSING, range: { min: 0, max: 1 } },
+  '209-2-3': { name: 'CG lightning density (30 min)', shortName: 'NLDN_CG_030min_AvgDensity', units: 'flashes/km²/min', missingValues: MRMS_MISSING, range: { min: 0, max: 1 } },
+
+  // MRMS category 3: severe weather (azimuthal shear, rotation, hail)
+  '209-3-0': { name: 'Azimuthal shear 0-2 km AGL', shortName: 'MergedAzShear_0-2kmAGL', units: '0.001/s', missingValues: MRMS_MISSING, range: { min: -10, max: 20 } },
+  '209-3-1': { name: 'Azimuthal shear 3-6 km AGL', shortName: 'MergedAzShear_3-6kmAGL', units: '0.001/s', missingValues: MRMS_MISSING, range: { min: -10, max: 20 } },
+  '209-3-2': rotationTrack(30),
+  '209-3-3': rotationTrack(60),
+  '209-3-4': rotationTrack(120),
+  '209-3-5': rotationTrack(240),
+  '209-3-6': rotationTrack(360),
+  '209-3-7': rotationTrack(1440),
+  '209-3-26': { name: 'Probability of severe hail', shortName: 'POSH', units: '%', missingValues: MRMS_MISSING, range: { min: 0, max: 100 } },
+  '209-3-27': { name: 'Severe hail index', shortName: 'SHI', units: 'index', missingValues: MRMS_MISSING, range: { min: 0, max: 500 } },
+  '209-3-28': { name: 'Maximum estimated hail size', shortName: 'MESH', units: 'mm', missingValues: MRMS_MISSING, range: { min: 0, max: 100 } },
+  '209-3-29': meshMax(30),
+  '209-3-30': meshMax(60),
+  '209-3-31': meshMax(120),
+  '209-3-32': meshMax(240),
+  '209-3-33': meshMax(360),
+  '209-3-34': meshMax(1440),
+
+  // MRMS category 6: precipitation
+  '209-6-0': { name: 'Surface precipitation type', shortName: 'PrecipFlag', units: 'flag', missingValues: MRMS_PRECIP_MISSING, range: { min: 0, max: 96 } },
+  '209-6-1': { name: 'Radar precipitation rate', shortName: 'PrecipRate', units: 'mm/hr', missingValues: MRMS_PRECIP_MISSING, range: { min: 0, max: 100 } },
+  '209-6-2': radarOnlyAccumulation(1),
+  '209-6-3': radarOnlyAccumulation(3),
+  '209-6-4': radarOnlyAccumulation(6),
+  '209-6-5': radarOnlyAccumulation(12),
+  '209-6-6': radarOnlyAccumulation(24),
+  '209-6-7': radarOnlyAccumulation(48),
+  '209-6-8': radarOnlyAccumulation(72),
+
+  // MRMS category 8: QPE quality
+  '209-8-0': { name: 'Radar quality index', shortName: 'RadarQualityIndex', units: 'dimensionless', missingValues: MRMS_PRECIP_MISSING, range: { min: 0, max: 1 } },
+
+  // MRMS category 10: composite reflectivity
+  '209-10-0': reflectivity('MergedReflectivityQCComposite', 'Composite reflectivity (QC)'),
+  '209-10-1': { name: 'Height of composite reflectivity', shortName: 'HeightCompositeReflectivity', units: 'm MSL', missingValues: MRMS_MISSING, range: { min: 0, max: 18000 } },
+  '209-10-2': reflectivity('LowLevelCompositeReflectivity', 'Low-level composite reflectivity'),
+  '209-10-3': { name: 'Height of low-level composite reflectivity', shortName: 'HeightLowLevelCompositeReflectivity', units: 'm MSL', missingValues: MRMS_MISSING, range: { min: 0, max: 6000 } },
+  '209-10-4': reflectivity('LayerCompositeReflectivity_Low', 'Layer composite reflectivity (low)'),
+  '209-10-5': reflectivity('LayerCompositeReflectivity_High', 'Layer composite reflectivity (high)'),
+  '209-10-6': reflectivity('LayerCompositeReflectivity_Super', 'Layer composite reflectivity (super)'),
+};
+
+// Category-level fallbacks for MRMS entries not listed above
+const MRMS_CATEGORIES: Record<number, ParameterEntry> = {
+  0: reflectivity('Reflectivity', 'MRMS 3D reflectivity'),
+  3: { name: 'MRMS severe weather product', shortName: 'Severe', units: '', missingValues: MRMS_MISSING, range: { min: 0, max: 100 } },
+  6: { name: 'MRMS precipitation product', shortName: 'Precip', units: 'mm', missingValues: MRMS_PRECIP_MISSING, range: { min: 0, max: 100 } },
+  9: reflectivity('Reflectivity', 'MRMS reflectivity product'),
+  10: reflectivity('Reflectivity', 'MRMS composite reflectivity'),
+  11: reflectivity('Reflectivity', 'MRMS merged reflectivity'),
+};
+
+export function lookupParameter(discipline: number, category: number, number: number): GribParameter {
+  const entry =
+    PARAMETERS[`${discipline}-${category}-${number}`] ??
+    (discipline === 209 ? MRMS_CATEGORIES[category] : undefined) ?? {
+      name: `Parameter ${discipline}-${category}-${number}`,
+      shortName: `var${discipline}_${category}_${number}`,
+      units: '',
+      missingValues: discipline === 209 ? MRMS_MISSING : [],
+      range: { min: 0, max: 100 },
+    };
+
+  return { discipline, category, number, ...entry };
+}
+
+/**
+ * True when `value` is one of the parameter's sentinel values. Decoded values
+ * go through float32 scaling, so compare with a small tolerance.
+ */
+export function isMissingValue(parameter: GribParameter, value: number): boolean {
+  if (Number.isNaN(value)) return true;
+  return parameter.missingValues.some(missing => Math.abs(value - missing) < 1e-3);
+}
+
+export function formatParameterValue(parameter: GribParameter, value: number): string {
+  return parameter.units ? `${value.toFixed(1)} ${parameter.units}` : value.toFixed(1);
+}
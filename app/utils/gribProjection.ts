@@ -0,0 +1,579 @@
+/**
+ * GRIB2 Section 3 (Grid Definition) reader and map projections.
+ *
+ * Supported templates:
+ *   3.0  regular latitude/longitude
+ *   3.1  rotated latitude/longitude
+ *   3.10 Mercator
+ *   3.20 polar stereographic
+ *   3.30 Lambert conformal
+ *
+ * Projected grids give the first point in lat/lon and the spacing in metres,
+ * so each cell is located by projecting the first point, stepping in x/y and
+ * projecting back. The earth is treated as a sphere throughout; for the
+ * oblate shapes the error is well under a grid cell at radar resolutions.
+ */
+
+import { readGribInt32 } from './gribBinary';
+
+export interface Projection {
+  name: string;
+  // Location of the point at column i, row j in the order the values are stored
+  cellToLatLon(i: number, j: number): { lat: number; lng: number };
+  // Fractional column/row of a location; may fall outside the grid
+  latLonToCell(lat: number, lng: number): { i: number; j: number };
+}
+
+export interface GridDefinition {
+  template: number;
+  ni: number;
+  nj: number;
+  la1: number; // first grid point
+  lo1: number;
+  la2: number; // last grid point, computed for projected grids
+  lo2: number;
+  di: number; // degrees on lat/lon grids, metres on projected grids
+  dj: number;
+  scanningMode: number;
+  projection: Projection | null; // null when the template isn't supported
+  source: GridSource;
+}
+
+/**
+ * Plain-data recipe for a grid's projection. Projections are closures, so
+ * they are dropped when a grid is posted between threads and rebuilt from
+ * this with restoreGridDefinition.
+ */
+export interface GridSource {
+  base:
+    | { kind: 'section'; bytes: Uint8Array } // Section 3 as read from the file
+    | { kind: 'latLon'; ni: number; nj: number; la1: number; lo1: number; la2: number; lo2: number; scanningMode: number };
+  // Cell (i, j) of this grid is cell (i0 + i * step, j0 + j * step) of the base grid
+  i0: number;
+  j0: number;
+  step: number;
+}
+
+export interface GridBounds {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+}
+
+const DEG = Math.PI / 180;
+const MICRODEGREES = 1e-6;
+const MISSING_UINT32 = 0xffffffff;
+const METRES_PER_DEGREE = 111320;
+
+/**
+ * Read Section 3 starting at `offset` (the first byte of the section length).
+ */
+export function readGridDefinitionSection(view: DataView, offset: number): GridDefinition {
+  const template = view.getUint16(offset + 12);
+  const start = view.byteOffset + offset;
+  const bytes = new Uint8Array(view.buffer.slice(start, start + view.getUint32(offset)));
+  const source: GridSource = { base: { kind: 'section', bytes }, i0: 0, j0: 0, step: 1 };
+
+  switch (template) {
+    case 0:
+    case 1:
+      return { ...readLatLonGrid(view, offset, template), source };
+    case 10:
+      return readMercatorGrid(view, offset, source);
+    case 20:
+      return readPolarStereographicGrid(view, offset, source);
+    case 30:
+      return readLambertConformalGrid(view, offset, source);
+    default:
+      return {
+        template,
+        ni: 0,
+        nj: 0,
+        la1: 0,
+        lo1: 0,
+        la2: 0,
+        lo2: 0,
+        di: 0,
+        dj: 0,
+        scanningMode: 0,
+        projection: null,
+        source,
+      };
+  }
+}
+
+/**
+ * Rebuild the projection of a grid that lost it, e.g. one received from a worker.
+ */
+export function restoreGridDefinition(grid: GridDefinition): GridDefinition {
+  const { base, i0, j0, step } = grid.source;
+  const parent = base.kind === 'section'
+    ? readGridDefinitionSection(new DataView(base.bytes.buffer, base.bytes.byteOffset, base.bytes.byteLength), 0).projection
+    : createLatLonGridDefinition(base.ni, base.nj, base.la1, base.lo1, base.la2, base.lo2, base.scanningMode).projection;
+
+  if (!parent || (i0 === 0 && j0 === 0 && step === 1)) {
+    return { ...grid, projection: parent };
+  }
+
+  return {
+    ...grid,
+    projection: {
+      name: parent.name,
+      cellToLatLon: (i, j) => parent.cellToLatLon(i0 + i * step, j0 + j * step),
+      latLonToCell: (lat, lng) => {
+        const { i, j } = parent.latLonToCell(lat, lng);
+        return { i: (i - i0) / step, j: (j - j0) / step };
+      },
+    },
+  };
+}
+
+/**
+ * Lat/lon extent of the grid, found by walking its edges (projected grids
+ * bulge, so the corners alone aren't enough). With `referenceLon` longitudes
+ * are kept within 180° of it, so a grid across the dateline stays in one piece.
+ */
+export function gridBounds(grid: GridDefinition, referenceLon?: number): GridBounds {
+  const bounds = { minLat: Infinity, maxLat: -Infinity, minLon: Infinity, maxLon: -Infinity };
+  if (!grid.projection || grid.ni === 0 || grid.nj === 0) {
+    return { minLat: 0, maxLat: 0, minLon: 0, maxLon: 0 };
+  }
+
+  const include = (i: number, j: number) => {
+    const { lat, lng: cellLng } = grid.projection!.cellToLatLon(i, j);
+    const lng = referenceLon === undefined ? cellLng : unwrapLongitude(cellLng, referenceLon);
+    bounds.minLat = Math.min(bounds.minLat, lat);
+    bounds.maxLat = Math.max(bounds.maxLat, lat);
+    bounds.minLon = Math.min(bounds.minLon, lng);
+    bounds.maxLon = Math.max(bounds.maxLon, lng);
+  };
+
+  const stepI = Math.max(1, Math.floor(grid.ni / 50));
+  const stepJ = Math.max(1, Math.floor(grid.nj / 50));
+  for (let i = 0; i < grid.ni; i += stepI) {
+    include(i, 0);
+    include(i, grid.nj - 1);
+  }
+  for (let j = 0; j < grid.nj; j += stepJ) {
+    include(0, j);
+    include(grid.ni - 1, j);
+  }
+  include(grid.ni - 1, grid.nj - 1);
+
+  return bounds;
+}
+
+export function normalizeLongitude(lng: number): number {
+  const wrapped = ((lng + 180) % 360 + 360) % 360 - 180;
+  return wrapped === -180 && lng > 0 ? 180 : wrapped;
+}
+
+/**
+ * The longitude, shifted by whole turns, that lies within 180° of `reference`,
+ * e.g. 175 near -170 becomes -185.
+ */
+export function unwrapLongitude(lng: number, reference: number): number {
+  return reference + normalizeLongitude(lng - reference);
+}
+
+/**
+ * Regular lat/lon grid geometry (template 3.0) from its corner points.
+ */
+export function createLatLonGridDefinition(
+  ni: number,
+  nj: number,
+  la1: number,
+  lo1: number,
+  la2: number,
+  lo2: number,
+  scanningMode: number
+): GridDefinition {
+  const iNegative = (scanningMode & 0x80) !== 0;
+  const jPositive = (scanningMode & 0x40) !== 0;
+
+  // Spacing comes from the corner points, which are exact, rather than the increments
+  const latStep = nj > 1 ? Math.abs(la2 - la1) / (nj - 1) : 0;
+  const lonSpan = ((iNegative ? lo1 - lo2 : lo2 - lo1) % 360 + 360) % 360;
+  const lonStep = ni > 1 ? lonSpan / (ni - 1) : 0;
+
+  const projection: Projection = {
+    name: 'Latitude/longitude',
+    cellToLatLon: (i, j) => ({
+      lat: jPositive ? la1 + j * latStep : la1 - j * latStep,
+      lng: normalizeLongitude(iNegative ? lo1 - i * lonStep : lo1 + i * lonStep),
+    }),
+    latLonToCell: (lat, lng) => {
+      // Distance east (or west) of the first column, with points just outside
+      // the western edge coming out negative rather than nearly 360
+      let offset = (((iNegative ? lo1 - lng : lng - lo1) % 360) + 360) % 360;
+      if (offset > lonSpan + (360 - lonSpan) / 2) offset -= 360;
+      return {
+        i: lonStep ? offset / lonStep : 0,
+        j: latStep ? (jPositive ? lat - la1 : la1 - lat) / latStep : 0,
+      };
+    },
+  };
+
+  const source: GridSource = { base: { kind: 'latLon', ni, nj, la1, lo1, la2, lo2, scanningMode }, i0: 0, j0: 0, step: 1 };
+  return { template: 0, ni, nj, la1, lo1, la2, lo2, di: lonStep, dj: latStep, scanningMode, projection, source };
+}
+
+/**
+ * The part of a grid starting at column i0, row j0, e.g. after cropping.
+ */
+export function offsetGridDefinition(grid: GridDefinition, i0: number, j0: number, ni: number, nj: number): GridDefinition {
+  const parent = grid.projection;
+  if (!parent) {
+    return { ...grid, ni, nj };
+  }
+
+  const projection: Projection = {
+    name: parent.name,
+    cellToLatLon: (i, j) => parent.cellToLatLon(i + i0, j + j0),
+    latLonToCell: (lat, lng) => {
+      const { i, j } = parent.latLonToCell(lat, lng);
+      return { i: i - i0, j: j - j0 };
+    },
+  };
+  const first = projection.cellToLatLon(0, 0);
+  const last = projection.cellToLatLon(ni - 1, nj - 1);
+  const { source } = grid;
+  return {
+    ...grid,
+    ni,
+    nj,
+    la1: first.lat,
+    lo1: first.lng,
+    la2: last.lat,
+    lo2: last.lng,
+    projection,
+    source: { ...source, i0: source.i0 + i0 * source.step, j0: source.j0 + j0 * source.step },
+  };
+}
+
+/**
+ * A coarser view of a grid where each cell stands for a factor × factor block
+ * of the original, located at the block's centre.
+ */
+export function scaleGridDefinition(grid: GridDefinition, factor: number): GridDefinition {
+  const ni = Math.ceil(grid.ni / factor);
+  const nj = Math.ceil(grid.nj / factor);
+  const parent = grid.projection;
+  if (!parent || factor === 1) {
+    return { ...grid, ni, nj };
+  }
+
+  const centre = (factor - 1) / 2;
+  const projection: Projection = {
+    name: parent.name,
+    cellToLatLon: (i, j) => parent.cellToLatLon(i * factor + centre, j * factor + centre),
+    latLonToCell: (lat, lng) => {
+      const { i, j } = parent.latLonToCell(lat, lng);
+      return { i: (i - centre) / factor, j: (j - centre) / factor };
+    },
+  };
+  const first = projection.cellToLatLon(0, 0);
+  const last = projection.cellToLatLon(ni - 1, nj - 1);
+  return {
+    ...grid,
+    ni,
+    nj,
+    la1: first.lat,
+    lo1: first.lng,
+    la2: last.lat,
+    lo2: last.lng,
+    di: grid.di * factor,
+    dj: grid.dj * factor,
+    projection,
+    source: {
+      ...grid.source,
+      i0: grid.source.i0 + centre * grid.source.step,
+      j0: grid.source.j0 + centre * grid.source.step,
+      step: grid.source.step * factor,
+    },
+  };
+}
+
+/**
+ * Approximate cell size in degrees, used to turn a target resolution into a stride.
+ */
+export function gridResolutionDegrees(grid: GridDefinition): number {
+  if (grid.template === 0 || grid.template === 1) {
+    return Math.abs(grid.dj || grid.di);
+  }
+  return grid.di / METRES_PER_DEGREE;
+}
+
+// Templates 3.0 and 3.1 share their first 72 bytes
+function readLatLonGrid(view: DataView, offset: number, template: number): GridDefinition {
+  // A basic angle of 0 (or missing) means the angles are in microdegrees
+  const basicAngle = view.getUint32(offset + 38);
+  const subdivisions = view.getUint32(offset + 42);
+  const unit = basicAngle === 0 || basicAngle === MISSING_UINT32 || subdivisions === MISSING_UINT32
+    ? MICRODEGREES
+    : basicAngle / subdivisions;
+
+  const grid = createLatLonGridDefinition(
+    view.getUint32(offset + 30),
+    view.getUint32(offset + 34),
+    readGribInt32(view, offset + 46) * unit,
+    readGribInt32(view, offset + 50) * unit,
+    readGribInt32(view, offset + 55) * unit,
+    readGribInt32(view, offset + 59) * unit,
+    view.getUint8(offset + 71)
+  );
+  // Increments may be missing (all ones), in which case the corner spacing stands
+  const di = view.getUint32(offset + 63);
+  const dj = view.getUint32(offset + 67);
+  if (di !== MISSING_UINT32) grid.di = di * unit;
+  if (dj !== MISSING_UINT32) grid.dj = dj * unit;
+
+  if (template !== 1) {
+    return grid;
+  }
+
+  const southPoleLat = readGribInt32(view, offset + 72) * unit;
+  const southPoleLon = view.getUint32(offset + 76) * unit;
+  const rotation = view.getFloat32(offset + 80);
+  if (rotation !== 0) {
+    console.warn(`⚠️  Ignoring rotated grid angle of rotation ${rotation}°`);
+  }
+
+  // The corner points and spacing are in rotated coordinates
+  const rotated = grid.projection!;
+  const pole = createPoleRotation(southPoleLat, southPoleLon);
+  return {
+    ...grid,
+    template,
+    projection: {
+      name: `Rotated latitude/longitude (south pole ${southPoleLat}, ${southPoleLon})`,
+      cellToLatLon: (i, j) => {
+        const { lat, lng } = rotated.cellToLatLon(i, j);
+        return pole.unrotate(lat, lng);
+      },
+      latLonToCell: (lat, lng) => {
+        const { lat: rotatedLat, lng: rotatedLng } = pole.rotate(lat, lng);
+        return rotated.latLonToCell(rotatedLat, rotatedLng);
+      },
+    },
+  };
+}
+
+/**
+ * Convert between rotated-pole and geographic coordinates. Unrotating tilts
+ * the pole back about the y axis and then restores its longitude about the
+ * z axis; rotating applies the transpose.
+ */
+function createPoleRotation(southPoleLat: number, southPoleLon: number) {
+  const theta = -(90 + southPoleLat) * DEG;
+  const phi = -southPoleLon * DEG;
+  const cosTheta = Math.cos(theta);
+  const sinTheta = Math.sin(theta);
+  const cosPhi = Math.cos(phi);
+  const sinPhi = Math.sin(phi);
+
+  const toCartesian = (lat: number, lng: number) => ({
+    x: Math.cos(lng * DEG) * Math.cos(lat * DEG),
+    y: Math.sin(lng * DEG) * Math.cos(lat * DEG),
+    z: Math.sin(lat * DEG),
+  });
+  const toLatLon = (x: number, y: number, z: number) => ({
+    lat: Math.asin(Math.max(-1, Math.min(1, z))) / DEG,
+    lng: normalizeLongitude(Math.atan2(y, x) / DEG),
+  });
+
+  return {
+    unrotate: (lat: number, lng: number) => {
+      const { x, y, z } = toCartesian(lat, lng);
+      return toLatLon(
+        cosTheta * cosPhi * x + sinPhi * y + sinTheta * cosPhi * z,
+        -cosTheta * sinPhi * x + cosPhi * y - sinTheta * sinPhi * z,
+        -sinTheta * x + cosTheta * z
+      );
+    },
+    rotate: (lat: number, lng: number) => {
+      const { x, y, z } = toCartesian(lat, lng);
+      return toLatLon(
+        cosTheta * cosPhi * x - cosTheta * sinPhi * y - sinTheta * z,
+        sinPhi * x + cosPhi * y,
+        sinTheta * cosPhi * x - sinTheta * sinPhi * y + cosTheta * z
+      );
+    },
+  };
+}
+
+interface MapProjection {
+  forward(lat: number, lng: number): { x: number; y: number };
+  inverse(x: number, y: number): { lat: number; lng: number };
+}
+
+/**
+ * Build a grid from a projection, the first point and the x/y spacing in metres.
+ */
+function createProjectedGrid(
+  name: string,
+  map: MapProjection,
+  first: { lat: number; lng: number },
+  dx: number,
+  dy: number,
+  scanningMode: number
+): Projection {
+  const origin = map.forward(first.lat, first.lng);
+  const stepX = (scanningMode & 0x80) !== 0 ? -dx : dx;
+  const stepY = (scanningMode & 0x40) !== 0 ? dy : -dy;
+
+  return {
+    name,
+    cellToLatLon: (i, j) => {
+      const { lat, lng } = map.inverse(origin.x + i * stepX, origin.y + j * stepY);
+      return { lat, lng: normalizeLongitude(lng) };
+    },
+    latLonToCell: (lat, lng) => {
+      const { x, y } = map.forward(lat, lng);
+      return { i: (x - origin.x) / stepX, j: (y - origin.y) / stepY };
+    },
+  };
+}
+
+function projectedGridDefinition(
+  template: number,
+  ni: number,
+  nj: number,
+  la1: number,
+  lo1: number,
+  dx: number,
+  dy: number,
+  scanningMode: number,
+  projection: Projection,
+  source: GridSource
+): GridDefinition {
+  const last = projection.cellToLatLon(ni - 1, nj - 1);
+  return { template, ni, nj, la1, lo1, la2: last.lat, lo2: last.lng, di: dx, dj: dy, scanningMode, projection, source };
+}
+
+function readMercatorGrid(view: DataView, offset: number, source: GridSource): GridDefinition {
+  const radius = readEarthRadius(view, offset);
+  const ni = view.getUint32(offset + 30);
+  const nj = view.getUint32(offset + 34);
+  const la1 = readGribInt32(view, offset + 38) * MICRODEGREES;
+  const lo1 = readGribInt32(view, offset + 42) * MICRODEGREES;
+  const trueScaleLat = readGribInt32(view, offset + 47) * MICRODEGREES;
+  const scanningMode = view.getUint8(offset + 59);
+  const dx = view.getUint32(offset + 64) / 1000;
+  const dy = view.getUint32(offset + 68) / 1000;
+
+  // x is measured from the first point's meridian so grids crossing 180° stay continuous
+  const scale = radius * Math.cos(trueScaleLat * DEG);
+  const map: MapProjection = {
+    forward: (lat, lng) => ({
+      x: scale * (lng - lo1) * DEG,
+      y: scale * Math.log(Math.tan(Math.PI / 4 + (lat * DEG) / 2)),
+    }),
+    inverse: (x, y) => ({
+      lat: (2 * Math.atan(Math.exp(y / scale)) - Math.PI / 2) / DEG,
+      lng: lo1 + x / scale / DEG,
+    }),
+  };
+
+  const projection = createProjectedGrid('Mercator', map, { lat: la1, lng: lo1 }, dx, dy, scanningMode);
+  return projectedGridDefinition(10, ni, nj, la1, lo1, dx, dy, scanningMode, projection, source);
+}
+
+function readPolarStereographicGrid(view: DataView, offset: number, source: GridSource): GridDefinition {
+  const radius = readEarthRadius(view, offset);
+  const ni = view.getUint32(offset + 30);
+  const nj = view.getUint32(offset + 34);
+  const la1 = readGribInt32(view, offset + 38) * MICRODEGREES;
+  const lo1 = readGribInt32(view, offset + 42) * MICRODEGREES;
+  const trueScaleLat = readGribInt32(view, offset + 47) * MICRODEGREES;
+  const orientation = readGribInt32(view, offset + 51) * MICRODEGREES;
+  const dx = view.getUint32(offset + 55) / 1000;
+  const dy = view.getUint32(offset + 59) / 1000;
+  const southPole = (view.getUint8(offset + 63) & 0x80) !== 0;
+  const scanningMode = view.getUint8(offset + 64);
+
+  // Work in the north polar aspect; the south aspect mirrors latitude and y
+  const hemisphere = southPole ? -1 : 1;
+  const scale = radius * (1 + Math.sin(Math.abs(trueScaleLat) * DEG));
+  const map: MapProjection = {
+    forward: (lat, lng) => {
+      const rho = scale * Math.tan(Math.PI / 4 - (hemisphere * lat * DEG) / 2);
+      const angle = (lng - orientation) * DEG;
+      return { x: rho * Math.sin(angle), y: -hemisphere * rho * Math.cos(angle) };
+    },
+    inverse: (x, y) => {
+      const rho = Math.hypot(x, y);
+      return {
+        lat: hemisphere * (Math.PI / 2 - 2 * Math.atan(rho / scale)) / DEG,
+        lng: orientation + Math.atan2(x, -hemisphere * y) / DEG,
+      };
+    },
+  };
+
+  const name = `Polar stereographic (${southPole ? 'south' : 'north'} pole)`;
+  const projection = createProjectedGrid(name, map, { lat: la1, lng: lo1 }, dx, dy, scanningMode);
+  return projectedGridDefinition(20, ni, nj, la1, lo1, dx, dy, scanningMode, projection, source);
+}
+
+function readLambertConformalGrid(view: DataView, offset: number, source: GridSource): GridDefinition {
+  const radius = readEarthRadius(view, offset);
+  const ni = view.getUint32(offset + 30);
+  const nj = view.getUint32(offset + 34);
+  const la1 = readGribInt32(view, offset + 38) * MICRODEGREES;
+  const lo1 = readGribInt32(view, offset + 42) * MICRODEGREES;
+  const orientation = readGribInt32(view, offset + 51) * MICRODEGREES;
+  const dx = view.getUint32(offset + 55) / 1000;
+  const dy = view.getUint32(offset + 59) / 1000;
+  const scanningMode = view.getUint8(offset + 64);
+  const latin1 = readGribInt32(view, offset + 65) * MICRODEGREES * DEG;
+  const latin2 = readGribInt32(view, offset + 69) * MICRODEGREES * DEG;
+
+  const tanHalf = (phi: number) => Math.tan(Math.PI / 4 + phi / 2);
+  const n = Math.abs(latin1 - latin2) < 1e-10
+    ? Math.sin(latin1)
+    : Math.log(Math.cos(latin1) / Math.cos(latin2)) / Math.log(tanHalf(latin2) / tanHalf(latin1));
+  const F = (Math.cos(latin1) * Math.pow(tanHalf(latin1), n)) / n;
+  const sign = Math.sign(n);
+
+  const map: MapProjection = {
+    forward: (lat, lng) => {
+      const rho = (radius * F) / Math.pow(tanHalf(lat * DEG), n);
+      // Keep the longitude difference in -180..180 so the cone doesn't wrap
+      const angle = n * normalizeLongitude(lng - orientation) * DEG;
+      return { x: rho * Math.sin(angle), y: -rho * Math.cos(angle) };
+    },
+    inverse: (x, y) => {
+      const rho = sign * Math.hypot(x, y);
+      const theta = Math.atan2(sign * x, -sign * y);
+      return {
+        lat: (2 * Math.atan(Math.pow((radius * F) / rho, 1 / n)) - Math.PI / 2) / DEG,
+        lng: orientation + theta / n / DEG,
+      };
+    },
+  };
+
+  const projection = createProjectedGrid('Lambert conformal', map, { lat: la1, lng: lo1 }, dx, dy, scanningMode);
+  return projectedGridDefinition(30, ni, nj, la1, lo1, dx, dy, scanningMode, projection, source);
+}
+
+/**
+ * Earth radius in metres from the shape of the earth (Code Table 3.2).
+ * Oblate shapes fall back to the mean radius.
+ */
+function readEarthRadius(view: DataView, offset: number): number {
+  const shape = view.getUint8(offset + 14);
+  switch (shape) {
+    case 0:
+      return 6367470;
+    case 1: {
+      const scale = view.getUint8(offset + 15);
+      const value = view.getUint32(offset + 16);
+      return value / Math.pow(10, scale);
+    }
+    case 8:
+      return 6371200;
+    default:
+      return 6371229;
+  }
+}
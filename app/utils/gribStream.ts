@@ -0,0 +1,538 @@
+/**
+ * Incremental GRIB2 reader.
+ *
+ * Bytes are pushed in as they arrive, from the network or an inflater, and
+ * each field comes out as soon as its Section 7 is complete. Sections 1-6
+ * are small and are buffered whole. Simple-packed Section 7 data is
+ * unpacked straight into a sink the caller provides, which keeps only what
+ * it needs, so memory stays close to the size of the fields as they are
+ * wanted rather than the file or the full-resolution grids.
+ */
+
+import { Inflate } from 'pako';
+import { readGribUint64 } from './gribBinary';
+import { applyBitmap, Bitmap, BITMAP_PRESENT, createBitmapWriter, readBitmapSection } from './gribBitmap';
+import {
+  createSimpleUnpacker,
+  DataRepresentation,
+  readDataRepresentationSection,
+  SimpleUnpacker,
+  unpackDataSection,
+} from './gribDataRepresentation';
+import { GribFormatError, GribUnsupportedError, locateGribError } from './gribErrors';
+import {
+  centreName,
+  GribIdentification,
+  GribProductDefinition,
+  readIdentificationSection,
+  readProductDefinitionSection,
+} from './gribMetadata';
+import { GridDefinition, readGridDefinitionSection } from './gribProjection';
+
+// One decoded field with the sections that describe it
+export interface GribRawField {
+  messageIndex: number;
+  fieldIndex: number; // position of this field within its message
+  discipline: number;
+  identification: GribIdentification;
+  grid: GridDefinition;
+  product: GribProductDefinition;
+  representation: DataRepresentation;
+  values: Float32Array; // one per grid point, NaN where the bitmap masks it
+}
+
+// A field's sections up to its data
+export type GribFieldHeader = Omit<GribRawField, 'values'>;
+
+// Takes a field's values by grid point, in storage order, and makes what the caller keeps of them
+export interface GribValueSink<T> {
+  store(point: number, value: number): void; // points the bitmap masks are never stored
+  finish(): T;
+}
+
+export interface GribStreamReader {
+  push(chunk: Uint8Array): void;
+  end(): void; // throws when no field could be decoded
+  readonly stage: 'parse' | 'unpack';
+}
+
+export interface GribInflater {
+  push(chunk: Uint8Array): void;
+  end(): void;
+}
+
+// Sections 2-7 may repeat, and every Section 7 uses the most recent Sections 3-6 before it
+interface MessageState {
+  index: number;
+  start: number;
+  end: number;
+  discipline: number;
+  identification: GribIdentification | null;
+  grid: GridDefinition | null;
+  product: GribProductDefinition | null;
+  representation: DataRepresentation | null;
+  bitmap: Bitmap | null; // the current field's, from its Section 6
+  definedBitmap: Bitmap | null; // the last one the message spelled out, which indicator 254 reuses
+  fieldCount: number;
+}
+
+type ReaderMode = 'seek' | 'indicator' | 'header' | 'section' | 'data' | 'skip';
+
+const GRIB_MAGIC = [0x47, 0x52, 0x49, 0x42];
+const END_SECTION = 0x37373737; // "7777"
+
+/**
+ * Read GRIB2 messages from decompressed bytes pushed in any chunk sizes.
+ * Like the whole-buffer decoder it skips junk between messages and, unless
+ * `strict`, skips messages it cannot decode. The stream itself must start
+ * with a message. Each field's values go into a sink from `createSink`, and
+ * what it makes of them is passed to `onField`.
+ */
+export function createGribStreamReader<T>(
+  createSink: (field: GribFieldHeader) => GribValueSink<T>,
+  onField: (field: GribFieldHeader, values: T) => void,
+  strict = false
+): GribStreamReader {
+  let position = 0; // stream offset of the next byte
+  let mode: ReaderMode = 'seek';
+  const lead = new Uint8Array(4); // first bytes of the stream, which must be the magic
+  const header = new Uint8Array(16); // Section 0, or a section's length and number
+  const headerView = new DataView(header.buffer);
+  let headerFilled = 0;
+  let message: MessageState | null = null;
+  let messageCount = 0;
+  let fieldCount = 0;
+  let firstError: unknown = null;
+
+  let section = { number: 0, offset: 0, bytes: new Uint8Array(0), filled: 0 };
+  let data: { offset: number; field: GribFieldHeader; sink: GribValueSink<T>; unpacker: SimpleUnpacker; remaining: number } | null = null;
+  let skipRemaining = 0;
+
+  const skip = (count: number) => {
+    skipRemaining = Math.max(count, 0);
+    mode = 'skip';
+  };
+
+  const finishMessage = () => {
+    const end = message ? message.end : position;
+    message = null;
+    messageCount++;
+    skip(end - position);
+  };
+
+  // The field the next Section 7 holds
+  const describe = (msg: MessageState): GribFieldHeader => ({
+    messageIndex: msg.index,
+    fieldIndex: msg.fieldCount,
+    discipline: msg.discipline,
+    identification: msg.identification!,
+    grid: msg.grid!,
+    product: msg.product!,
+    representation: msg.representation!,
+  });
+
+  const emit = (msg: MessageState, field: GribFieldHeader, values: T) => {
+    msg.fieldCount++;
+    onField(field, values);
+    fieldCount++;
+  };
+
+  // Every handler advances `position` past what it took before doing anything that may throw
+  const seek = (chunk: Uint8Array, k: number) => {
+    while (k < chunk.length) {
+      const byte = chunk[k++];
+      if (position < 4) lead[position] = byte;
+      position++;
+
+      if (byte === GRIB_MAGIC[headerFilled]) {
+        headerFilled++;
+      } else {
+        headerFilled = byte === GRIB_MAGIC[0] ? 1 : 0;
+      }
+
+      if (position === 4 && headerFilled !== 4) {
+        throw new GribFormatError(`Not a GRIB file, magic string is "${new TextDecoder().decode(lead)}"`, 0, 0);
+      }
+      if (headerFilled === 4) {
+        mode = 'indicator';
+        return;
+      }
+    }
+  };
+
+  // The magic has been matched; read the rest of Section 0
+  const readIndicator = (chunk: Uint8Array, k: number) => {
+    const n = Math.min(16 - headerFilled, chunk.length - k);
+    header.set(chunk.subarray(k, k + n), headerFilled);
+    headerFilled += n;
+    position += n;
+    if (headerFilled < 16) return;
+
+    headerFilled = 0;
+    const start = position - 16;
+    const edition = header[7];
+    if (edition !== 2) {
+      if (strict) {
+        throw new GribUnsupportedError(`GRIB edition ${edition} is not supported`, 0, start);
+      }
+      // GRIB1 keeps a 3-byte length right after the magic
+      const grib1Length = (header[4] << 16) | (header[5] << 8) | header[6];
+      console.warn(`⚠️  Skipping GRIB edition ${edition} message at byte ${start}`);
+      skip(grib1Length - 16);
+      return;
+    }
+
+    const discipline = header[6];
+    const totalLength = readGribUint64(headerView, 8);
+    console.log(`📨 Message ${messageCount + 1}: ${totalLength} bytes at offset ${start}, discipline ${discipline}`);
+    message = {
+      index: messageCount,
+      start,
+      end: start + totalLength,
+      discipline,
+      identification: null,
+      grid: null,
+      product: null,
+      representation: null,
+      bitmap: null,
+      definedBitmap: null,
+      fieldCount: 0,
+    };
+    mode = 'header';
+    if (totalLength < 20) {
+      throw new GribFormatError(`Invalid message length ${totalLength}`, 0, start);
+    }
+  };
+
+  const readHeader = (chunk: Uint8Array, k: number) => {
+    const msg = message!;
+    // Only the end section fits in what is left
+    if (headerFilled === 0 && msg.end - position <= 4) {
+      finishMessage();
+      return;
+    }
+
+    // The end section is only 4 bytes, so check for it before taking the section number
+    const wanted = headerFilled < 4 ? 4 : 5;
+    const n = Math.min(wanted - headerFilled, chunk.length - k);
+    header.set(chunk.subarray(k, k + n), headerFilled);
+    headerFilled += n;
+    position += n;
+
+    if (headerFilled === 4 && headerView.getUint32(0) === END_SECTION) {
+      headerFilled = 0;
+      finishMessage();
+      return;
+    }
+    if (headerFilled < 5) return;
+
+    headerFilled = 0;
+    const offset = position - 5;
+    const length = headerView.getUint32(0);
+    const number = header[4];
+    if (length < 5 || offset + length > msg.end) {
+      throw new GribFormatError(`Invalid section length ${length}`, number, offset);
+    }
+
+    if (number === 7) {
+      beginDataSection(msg, length, offset);
+    } else {
+      collectSection(number, length, offset);
+    }
+  };
+
+  const collectSection = (number: number, length: number, offset: number) => {
+    section = { number, offset, bytes: new Uint8Array(length), filled: 5 };
+    section.bytes.set(header.subarray(0, 5));
+    mode = 'section';
+    if (length === 5) completeSection();
+  };
+
+  const readSection = (chunk: Uint8Array, k: number) => {
+    const n = Math.min(section.bytes.length - section.filled, chunk.length - k);
+    section.bytes.set(chunk.subarray(k, k + n), section.filled);
+    section.filled += n;
+    position += n;
+    if (section.filled === section.bytes.length) completeSection();
+  };
+
+  const completeSection = () => {
+    mode = 'header';
+    const msg = message!;
+    const { number, offset, bytes } = section;
+    const view = new DataView(bytes.buffer);
+
+    try {
+      switch (number) {
+        case 1:
+          msg.identification = readIdentificationSection(view, 0);
+          console.log(`🏛️  Originating centre: ${centreName(msg.identification.centre)}, reference time ${msg.identification.referenceTime.toISOString()}`);
+          break;
+        case 3:
+          msg.grid = readGridDefinition(view);
+          if (!msg.grid.projection && strict) {
+            throw new GribUnsupportedError(`Unsupported grid definition template 3.${msg.grid.template}`);
+          }
+          break;
+        case 4:
+          msg.product = readProductDefinitionSection(view, 0);
+          console.log(`🏷️  Product template 4.${msg.product.template}: parameter ${msg.discipline}-${msg.product.parameterCategory}-${msg.product.parameterNumber}, level type ${msg.product.levelType}`);
+          break;
+        case 5: {
+          const representation = readDataRepresentationSection(view, 0);
+          msg.representation = representation;
+          console.log(`📐 Data representation template 5.${representation.templateNumber}: R=${representation.referenceValue}, E=${representation.binaryScaleFactor}, D=${representation.decimalScaleFactor}, ${representation.bitsPerValue} bits per value`);
+          break;
+        }
+        case 6:
+          msg.bitmap = readBitmapSection(view, 0, bytes.length, msg.definedBitmap);
+          if (msg.bitmap.indicator === BITMAP_PRESENT) msg.definedBitmap = msg.bitmap;
+          console.log(`🗺️  Bitmap indicator: ${msg.bitmap.indicator}${msg.bitmap.bits ? ' (masked cells will be skipped)' : ''}`);
+          break;
+        case 7: {
+          // Image-coded data has to be decompressed whole
+          const field = describe(msg);
+          const { grid, representation } = field;
+          const packed = unpackDataSection(bytes.subarray(5), representation, representation.numberOfPackedValues);
+          const values = applyBitmap(packed, msg.bitmap, grid.ni * grid.nj);
+          const sink = createSink(field);
+          for (let point = 0; point < values.length; point++) sink.store(point, values[point]);
+          emit(msg, field, sink.finish());
+          break;
+        }
+        default:
+          break; // Section 2 (local use) carries nothing the grid needs
+      }
+    } catch (error) {
+      throw locateGribError(error, number, offset);
+    }
+  };
+
+  const beginDataSection = (msg: MessageState, length: number, offset: number) => {
+    const { identification, grid, product, representation } = msg;
+    if (!identification || !grid || !product || !representation) {
+      throw new GribFormatError('Data section found before identification, grid, product or data representation section', 7, offset);
+    }
+    if (!grid.projection) {
+      console.warn(`⚠️  Skipping field ${msg.fieldCount + 1}: unsupported grid definition template 3.${grid.template}`);
+      skip(length - 5);
+      return;
+    }
+    if (representation.templateNumber !== 0) {
+      collectSection(7, length, offset);
+      return;
+    }
+
+    try {
+      const field = describe(msg);
+      const sink = createSink(field);
+      const store = createBitmapWriter(grid.ni * grid.nj, msg.bitmap, (point, value) => sink.store(point, value));
+      const unpacker = createSimpleUnpacker(representation, representation.numberOfPackedValues, store);
+      data = { offset, field, sink, unpacker, remaining: length - 5 };
+    } catch (error) {
+      skip(length - 5);
+      throw locateGribError(error, 7, offset);
+    }
+    mode = 'data';
+    if (data.remaining === 0) completeData();
+  };
+
+  const readData = (chunk: Uint8Array, k: number) => {
+    const current = data!;
+    const n = Math.min(current.remaining, chunk.length - k);
+    current.remaining -= n;
+    position += n;
+    try {
+      current.unpacker.push(chunk.subarray(k, k + n));
+    } catch (error) {
+      throw locateGribError(error, 7, current.offset);
+    }
+    if (current.remaining === 0) completeData();
+  };
+
+  const completeData = () => {
+    const current = data!;
+    data = null;
+    mode = 'header';
+    try {
+      current.unpacker.finish();
+      emit(message!, current.field, current.sink.finish());
+    } catch (error) {
+      throw locateGribError(error, 7, current.offset);
+    }
+  };
+
+  const readSkipped = (chunk: Uint8Array, k: number) => {
+    const n = Math.min(skipRemaining, chunk.length - k);
+    skipRemaining -= n;
+    position += n;
+    if (skipRemaining === 0) mode = message ? 'header' : 'seek';
+  };
+
+  const handlers: Record<ReaderMode, (chunk: Uint8Array, k: number) => void> = {
+    seek,
+    indicator: readIndicator,
+    header: readHeader,
+    section: readSection,
+    data: readData,
+    skip: readSkipped,
+  };
+
+  return {
+    push(chunk) {
+      const base = position;
+      while (position - base < chunk.length) {
+        try {
+          handlers[mode](chunk, position - base);
+        } catch (error) {
+          if (!message || strict) throw error;
+          console.error(`❌ Failed to decode message ${message.index + 1}:`, error);
+          firstError ??= error;
+          data = null;
+          finishMessage();
+        }
+      }
+    },
+
+    end() {
+      if (position < 4) {
+        throw new GribFormatError(`Not a GRIB file, magic string is "${new TextDecoder().decode(lead.subarray(0, position))}"`, 0, 0);
+      }
+      if (message) {
+        const error = new GribFormatError(`Message declares ${message.end - message.start} bytes but only ${position - message.start} arrived`, 0, message.start);
+        if (strict) throw error;
+        console.warn(`⚠️  ${error.message}`);
+        firstError ??= error;
+        message = null;
+        messageCount++;
+      }
+
+      // Nothing decoded: the first failure explains it better than an empty result
+      if (fieldCount === 0) {
+        throw firstError ?? new GribFormatError('Could not find valid grid data in GRIB2 file');
+      }
+      console.log(`✅ Decoded ${fieldCount} field(s) from ${messageCount} message(s)`);
+    },
+
+    get stage() {
+      return mode === 'data' ? 'unpack' : 'parse';
+    },
+  };
+}
+
+// Optional gzip header fields, RFC 1952 section 2.3
+const GZIP_FHCRC = 0x02;
+const GZIP_FEXTRA = 0x04;
+const GZIP_FNAME = 0x08;
+const GZIP_FCOMMENT = 0x10;
+
+/**
+ * Streaming gunzip that hands each block of output to `onData` and carries on
+ * into the next member of a multi-member file. pako only inflates the raw
+ * deflate data: its own member handling loses the window when a member ends
+ * mid-chunk, so headers and trailers are read here and each member gets a
+ * fresh inflater. Trailers are checked by length only.
+ */
+export function createInflater(onData: (chunk: Uint8Array) => void): GribInflater {
+  let stage: 'header' | 'body' | 'trailer' | 'done' = 'header';
+  let header: number[] = [];
+  let trailer: number[] = [];
+  let inflater: Inflate | null = null;
+  let ended = false;
+  let produced = 0; // output bytes of the current member
+  let members = 0;
+
+  const startMember = () => {
+    const member = new Inflate({ raw: true });
+    member.onData = chunk => {
+      const bytes = chunk as Uint8Array;
+      produced += bytes.length;
+      onData(bytes);
+    };
+    member.onEnd = status => {
+      Inflate.prototype.onEnd.call(member, status);
+      ended = true;
+    };
+    ended = false;
+    produced = 0;
+    return member;
+  };
+
+  return {
+    push(chunk) {
+      let offset = 0;
+      while (offset < chunk.length && stage !== 'done') {
+        if (stage === 'header') {
+          // Anything but another gzip member after the end is padding
+          if (members > 0 && header.length === 0 && chunk[offset] !== 0x1f) {
+            stage = 'done';
+            return;
+          }
+          header.push(chunk[offset++]);
+          if (header.length === 2 && (header[0] !== 0x1f || header[1] !== 0x8b)) throw new Error('incorrect header check');
+          if (header.length === 3 && header[2] !== 8) throw new Error('unknown compression method');
+          if (gzipHeaderLength(header) > 0) {
+            inflater = startMember();
+            stage = 'body';
+          }
+        } else if (stage === 'body' && inflater) {
+          const input = chunk.subarray(offset);
+          inflater.push(input, false);
+          if (inflater.err) throw new Error(inflater.msg || `inflate error ${inflater.err}`);
+          if (!ended) return;
+          // pako leaves next_in just past the last deflate byte
+          offset += (inflater as unknown as { strm: { next_in: number } }).strm.next_in;
+          stage = 'trailer';
+        } else {
+          trailer.push(chunk[offset++]);
+          if (trailer.length === 8) {
+            const size = (trailer[4] | trailer[5] << 8 | trailer[6] << 16 | trailer[7] << 24) >>> 0;
+            if (size !== produced % 0x100000000) throw new Error('incorrect length check');
+            members++;
+            header = [];
+            trailer = [];
+            stage = 'header';
+          }
+        }
+      }
+    },
+    end() {
+      if (members === 0 || stage === 'body' || stage === 'trailer' || (stage === 'header' && header.length > 0)) {
+        throw new Error('unexpected end of file');
+      }
+    },
+  };
+}
+
+// Total header length once every optional field has arrived, else 0
+function gzipHeaderLength(bytes: number[]): number {
+  if (bytes.length < 10) return 0;
+  const flags = bytes[3];
+  let length = 10;
+  if (flags & GZIP_FEXTRA) {
+    if (bytes.length < length + 2) return 0;
+    length += 2 + (bytes[length] | bytes[length + 1] << 8);
+  }
+  for (const flag of [GZIP_FNAME, GZIP_FCOMMENT]) {
+    if (!(flags & flag)) continue;
+    const terminator = bytes.indexOf(0, length);
+    if (terminator < 0) return 0;
+    length = terminator + 1;
+  }
+  if (flags & GZIP_FHCRC) length += 2;
+  return bytes.length >= length ? length : 0;
+}
+
+function readGridDefinition(view: DataView): GridDefinition {
+  const grid = readGridDefinitionSection(view, 0);
+  console.log(`🗂️  Found Grid Definition Section, template: ${grid.template}`);
+
+  if (!grid.projection) {
+    return grid;
+  }
+
+  console.log(`Grid: ${grid.ni}x${grid.nj} ${grid.projection.name}, from ${grid.la1},${grid.lo1} to ${grid.la2},${grid.lo2}`);
+  console.log(`🔍 Grid increments: di=${grid.di}, dj=${grid.dj}, scanning mode: ${grid.scanningMode.toString(16)}`);
+
+  return grid;
+}
@@ -0,0 +1,66 @@
+/**
+ * Web Worker entry that runs SimpleGribProcessor off the main thread.
+ * Started by decodeGribInWorker in gribWorkerClient.ts.
+ */
+
+import { SerializedGribError, serializeGribError } from './gribErrors';
+import { GribDecodeOptions, GribDecodeProgress, GribField, SimpleGribProcessor } from './gribProcessor';
+
+// A whole buffer is decoded at once; a stream arrives as start, chunks, then end
+export type GribWorkerRequest =
+  | { type: 'buffer'; buffer: ArrayBuffer; options: GribDecodeOptions }
+  | { type: 'start'; options: GribDecodeOptions; totalBytes: number }
+  | { type: 'chunk'; chunk: Uint8Array }
+  | { type: 'end' };
+
+export type GribWorkerResponse =
+  | { type: 'progress'; progress: GribDecodeProgress }
+  | { type: 'result'; fields: GribField[] } // projections are null; restore them from grid.geometry.source
+  | { type: 'error'; error: SerializedGribError };
+
+const post = (message: GribWorkerResponse, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+const reportProgress = (progress: GribDecodeProgress) => post({ type: 'progress', progress });
+
+let streamController: ReadableStreamDefaultController<Uint8Array> | null = null;
+
+self.addEventListener('message', (event: MessageEvent<GribWorkerRequest>) => {
+  const request = event.data;
+
+  switch (request.type) {
+    case 'buffer':
+      respond(SimpleGribProcessor.processGribMessages(request.buffer, request.options, reportProgress));
+      break;
+    case 'start': {
+      const stream = new ReadableStream<Uint8Array>({
+        start: controller => {
+          streamController = controller;
+        },
+      });
+      respond(SimpleGribProcessor.processGribStream(stream, request.options, reportProgress, request.totalBytes));
+      break;
+    }
+    case 'chunk':
+      streamController?.enqueue(request.chunk);
+      break;
+    case 'end':
+      streamController?.close();
+      streamController = null;
+      break;
+  }
+});
+
+async function respond(decoding: Promise<GribField[]>) {
+  try {
+    const fields = await decoding;
+
+    // Projections are closures, which can't be cloned; the grid values move rather than copy
+    const detached = fields.map(field => ({
+      ...field,
+      grid: { ...field.grid, geometry: { ...field.grid.geometry, projection: null } },
+    }));
+    const transfer = new Set(detached.map(field => field.grid.values.buffer as ArrayBuffer));
+    post({ type: 'result', fields: detached }, [...transfer]);
+  } catch (error) {
+    post({ type: 'error', error: serializeGribError(error) });
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Decode GRIB2 data in a Web Worker so inflating and unpacking large files
+ * doesn't freeze the page.
+ */
+
+import { deserializeGribError } from './gribErrors';
+import { GribDecodeOptions, GribField, GribProgressCallback, SimpleGribProcessor } from './gribProcessor';
+import { restoreGridDefinition } from './gribProjection';
+import type { GribWorkerRequest, GribWorkerResponse } from './gribWorker';
+
+export interface GribWorkerDecodeOptions {
+  onProgress?: GribProgressCallback;
+  signal?: AbortSignal; // aborting terminates the worker
+  totalBytes?: number; // size of a streamed source when known, for progress
+}
+
+/**
+ * Decode every field in the buffer or stream on a worker thread. A buffer is
+ * transferred, so it is detached afterwards; pass a copy to keep it. A stream
+ * is forwarded chunk by chunk, so the worker decodes while it downloads.
+ * Rejects with an AbortError DOMException when the signal is aborted.
+ */
+export function decodeGribInWorker(
+  source: ArrayBuffer | ReadableStream<Uint8Array>,
+  options: GribDecodeOptions = {},
+  { onProgress, signal, totalBytes = 0 }: GribWorkerDecodeOptions = {}
+): Promise<GribField[]> {
+  // Server rendering and old browsers decode in place
+  if (typeof Worker === 'undefined') {
+    return source instanceof ArrayBuffer
+      ? SimpleGribProcessor.processGribMessages(source, options, onProgress)
+      : SimpleGribProcessor.processGribStream(source, options, onProgress, totalBytes);
+  }
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('GRIB decode was cancelled', 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./gribWorker.ts', import.meta.url), { type: 'module' });
+    const reader = source instanceof ArrayBuffer ? null : source.getReader();
+    let finished = false;
+    const finish = () => {
+      finished = true;
+      worker.terminate();
+      reader?.cancel().catch(() => {});
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      reject(new DOMException('GRIB decode was cancelled', 'AbortError'));
+    };
+    signal?.addEventListener('abort', cancel);
+
+    worker.onmessage = (event: MessageEvent<GribWorkerResponse>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      finish();
+      if (message.type === 'result') {
+        resolve(message.fields.map(field => ({
+          ...field,
+          grid: { ...field.grid, geometry: restoreGridDefinition(field.grid.geometry) },
+        })));
+      } else {
+        reject(deserializeGribError(message.error));
+      }
+    };
+    worker.onerror = event => {
+      finish();
+      reject(new Error(`GRIB decode worker failed: ${event.message}`));
+    };
+
+    const post = (request: GribWorkerRequest, transfer: Transferable[] = []) => worker.postMessage(request, transfer);
+
+    if (!reader) {
+      post({ type: 'buffer', buffer: source as ArrayBuffer, options }, [source as ArrayBuffer]);
+      return;
+    }
+
+    post({ type: 'start', options, totalBytes });
+    const forward = async () => {
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (finished) return;
+        if (done) break;
+        // Only move buffers the chunk owns outright; views into a larger buffer are copied
+        const owned = value.byteOffset === 0 && value.byteLength === value.buffer.byteLength;
+        post({ type: 'chunk', chunk: value }, owned ? [value.buffer as ArrayBuffer] : []);
+      }
+      post({ type: 'end' });
+    };
+    forward().catch(error => {
+      if (finished) return;
+      finish();
+      reject(error);
+    });
+  });
+}
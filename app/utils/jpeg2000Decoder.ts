@@ -0,0 +1,1262 @@
+/**
+ * Pure TypeScript JPEG2000 codestream decoder for GRIB2 data representation
+ * template 5.40.
+ *
+ * GRIB2 producers embed a raw J2K codestream (no JP2 box wrapper) holding a
+ * single greyscale component, so this decoder only handles one component.
+ * Within that scope it covers multiple tiles and quality layers, all five
+ * progression orders, user-defined precincts, every Part 1 code-block style
+ * (bypass, context reset, termination on each pass, vertically causal
+ * contexts, segmentation symbols) and both the reversible 5/3 and the
+ * irreversible 9/7 wavelet.
+ *
+ * Section references below are to ITU-T T.800 (ISO/IEC 15444-1).
+ */
+
+export interface DecodedJpeg2000 {
+  width: number;
+  height: number;
+  precision: number;
+  isSigned: boolean;
+  samples: Int32Array;
+}
+
+// Markers (Table A.2)
+const SOC = 0xff4f;
+const SOT = 0xff90;
+const SOD = 0xff93;
+const EOC = 0xffd9;
+const SIZ = 0xff51;
+const COD = 0xff52;
+const COC = 0xff53;
+const QCD = 0xff5c;
+const QCC = 0xff5d;
+const POC = 0xff5f;
+const PPM = 0xff60;
+const PPT = 0xff61;
+const SOP = 0xff91;
+const EPH = 0xff92;
+
+// Code-block style flags (Table A.19)
+const STYLE_BYPASS = 0x01;
+const STYLE_RESET = 0x02;
+const STYLE_TERMALL = 0x04;
+const STYLE_CAUSAL = 0x08;
+const STYLE_SEGMARK = 0x20;
+const STYLE_HT = 0x40;
+
+type BandType = 'LL' | 'HL' | 'LH' | 'HH';
+
+interface ImageSize {
+  width: number;
+  height: number;
+  offsetX: number;
+  offsetY: number;
+  tileWidth: number;
+  tileHeight: number;
+  tileOffsetX: number;
+  tileOffsetY: number;
+  precision: number;
+  isSigned: boolean;
+  subsamplingX: number;
+  subsamplingY: number;
+}
+
+interface CodingStyle {
+  progressionOrder: number;
+  layers: number;
+  decompositionLevels: number;
+  codeblockWidthExponent: number;
+  codeblockHeightExponent: number;
+  codeblockStyle: number;
+  reversible: boolean;
+  precinctSizes: { ppx: number; ppy: number }[];
+}
+
+interface Quantization {
+  style: number;
+  guardBits: number;
+  exponents: number[];
+  mantissas: number[];
+}
+
+interface TileHeader {
+  coding: CodingStyle;
+  quantization: Quantization;
+  parts: Uint8Array[];
+}
+
+interface Segment {
+  maxPasses: number;
+  passes: number;
+  chunks: Uint8Array[];
+}
+
+interface CodeBlock {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  precinctX: number;
+  precinctY: number;
+  included: boolean;
+  zeroBitplanes: number;
+  lblock: number;
+  segments: Segment[];
+}
+
+interface BandPrecinct {
+  codeblocks: CodeBlock[];
+  cbxMin: number;
+  cbyMin: number;
+  cbxMax: number;
+  cbyMax: number;
+  inclusionTree: TagTree | null;
+  zeroBitplaneTree: TagTree | null;
+}
+
+interface Band {
+  type: BandType;
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  bitplanes: number;
+  stepSize: number;
+  precincts: Map<number, BandPrecinct>;
+  codeblocks: CodeBlock[];
+}
+
+interface Resolution {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  ppx: number;
+  ppy: number;
+  precinctsWide: number;
+  precinctsHigh: number;
+  bands: Band[];
+}
+
+interface Tile {
+  x0: number;
+  y0: number;
+  x1: number;
+  y1: number;
+  coding: CodingStyle;
+  resolutions: Resolution[];
+}
+
+interface PacketId {
+  layer: number;
+  resolution: number;
+  precinct: number;
+}
+
+export function decodeJpeg2000(data: Uint8Array): DecodedJpeg2000 {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  if (data.length < 2 || view.getUint16(0) !== SOC) {
+    throw new Error('Data section does not start with a JPEG2000 SOC marker');
+  }
+
+  let size: ImageSize | null = null;
+  let coding: CodingStyle | null = null;
+  let quantization: Quantization | null = null;
+  const tiles = new Map<number, TileHeader>();
+
+  // Main header (A.4.1)
+  let position = 2;
+  while (position + 4 <= data.length) {
+    const marker = view.getUint16(position);
+    if (marker === SOT) break;
+    const length = view.getUint16(position + 2);
+    const segment = data.subarray(position + 4, position + 2 + length);
+
+    switch (marker) {
+      case SIZ:
+        size = readSiz(segment);
+        break;
+      case COD:
+        coding = readCod(segment);
+        break;
+      case COC:
+        if (!coding) throw new Error('JPEG2000 COC marker before COD');
+        coding = readCoc(segment, coding);
+        break;
+      case QCD:
+      case QCC:
+        quantization = readQcd(marker === QCC ? segment.subarray(1) : segment);
+        break;
+      case POC:
+      case PPM:
+        throw new Error(`JPEG2000 marker 0x${marker.toString(16)} is not supported`);
+      default:
+        break; // COM, TLM, PLM, CRG and friends carry nothing we need
+    }
+    position += 2 + length;
+  }
+
+  if (!size || !coding || !quantization) {
+    throw new Error('JPEG2000 main header is missing SIZ, COD or QCD');
+  }
+
+  // Tile-parts (A.4.2)
+  while (position + 2 <= data.length) {
+    const marker = view.getUint16(position);
+    if (marker === EOC) break;
+    if (marker !== SOT) {
+      throw new Error(`Expected JPEG2000 SOT marker at byte ${position}, found 0x${marker.toString(16)}`);
+    }
+
+    const tileIndex = view.getUint16(position + 4);
+    const partLength = view.getUint32(position + 6);
+    const partEnd = partLength ? position + partLength : data.length;
+
+    let tile = tiles.get(tileIndex);
+    if (!tile) {
+      tile = { coding, quantization, parts: [] };
+      tiles.set(tileIndex, tile);
+    }
+
+    let headerPosition = position + 12;
+    while (headerPosition + 2 <= partEnd) {
+      const tileMarker = view.getUint16(headerPosition);
+      if (tileMarker === SOD) {
+        headerPosition += 2;
+        break;
+      }
+      const length = view.getUint16(headerPosition + 2);
+      const segment = data.subarray(headerPosition + 4, headerPosition + 2 + length);
+      if (tileMarker === COD) tile.coding = readCod(segment);
+      else if (tileMarker === COC) tile.coding = readCoc(segment, tile.coding);
+      else if (tileMarker === QCD) tile.quantization = readQcd(segment);
+      else if (tileMarker === QCC) tile.quantization = readQcd(segment.subarray(1));
+      else if (tileMarker === POC || tileMarker === PPT) {
+        throw new Error(`JPEG2000 marker 0x${tileMarker.toString(16)} is not supported`);
+      }
+      headerPosition += 2 + length;
+    }
+
+    let bodyEnd = Math.min(partEnd, data.length);
+    if (!partLength && bodyEnd >= 2 && view.getUint16(bodyEnd - 2) === EOC) bodyEnd -= 2;
+    tile.parts.push(data.subarray(headerPosition, bodyEnd));
+    position = partEnd;
+  }
+
+  const compX0 = Math.ceil(size.offsetX / size.subsamplingX);
+  const compY0 = Math.ceil(size.offsetY / size.subsamplingY);
+  const width = Math.ceil(size.width / size.subsamplingX) - compX0;
+  const height = Math.ceil(size.height / size.subsamplingY) - compY0;
+  const samples = new Int32Array(width * height);
+
+  const tilesWide = Math.ceil((size.width - size.tileOffsetX) / size.tileWidth);
+  const maxValue = size.isSigned ? Math.pow(2, size.precision - 1) - 1 : Math.pow(2, size.precision) - 1;
+  const minValue = size.isSigned ? -Math.pow(2, size.precision - 1) : 0;
+  const dcShift = size.isSigned ? 0 : Math.pow(2, size.precision - 1);
+
+  tiles.forEach((header, tileIndex) => {
+    const tile = buildTile(size!, header, tileIndex % tilesWide, Math.floor(tileIndex / tilesWide));
+    const body = concatenate(header.parts);
+    readPackets(body, tile);
+    const component = reconstructTile(tile);
+
+    for (let y = 0; y < component.height; y++) {
+      const imageRow = component.y0 + y - compY0;
+      if (imageRow < 0 || imageRow >= height) continue;
+      for (let x = 0; x < component.width; x++) {
+        const imageCol = component.x0 + x - compX0;
+        if (imageCol < 0 || imageCol >= width) continue;
+        const value = Math.round(component.data[y * component.width + x] + dcShift);
+        samples[imageRow * width + imageCol] = Math.min(maxValue, Math.max(minValue, value));
+      }
+    }
+  });
+
+  return { width, height, precision: size.precision, isSigned: size.isSigned, samples };
+}
+
+// ---------------------------------------------------------------------------
+// Marker segments
+// ---------------------------------------------------------------------------
+
+function readSiz(segment: Uint8Array): ImageSize {
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  const components = view.getUint16(34);
+  if (components !== 1) {
+    throw new Error(`JPEG2000 codestream has ${components} components, GRIB2 fields use one`);
+  }
+  const ssiz = segment[36];
+  return {
+    width: view.getUint32(2),
+    height: view.getUint32(6),
+    offsetX: view.getUint32(10),
+    offsetY: view.getUint32(14),
+    tileWidth: view.getUint32(18),
+    tileHeight: view.getUint32(22),
+    tileOffsetX: view.getUint32(26),
+    tileOffsetY: view.getUint32(30),
+    precision: (ssiz & 0x7f) + 1,
+    isSigned: (ssiz & 0x80) !== 0,
+    subsamplingX: segment[37],
+    subsamplingY: segment[38],
+  };
+}
+
+function readCod(segment: Uint8Array): CodingStyle {
+  const scod = segment[0];
+  const view = new DataView(segment.buffer, segment.byteOffset, segment.byteLength);
+  return readComponentCoding(segment.subarray(5), scod & 0x01, {
+    progressionOrder: segment[1],
+    layers: view.getUint16(2),
+  });
+}
+
+function readCoc(segment: Uint8Array, base: CodingStyle): CodingStyle {
+  // Single component, so Ccoc is one byte and always refers to component 0
+  const scoc = segment[1];
+  return readComponentCoding(segment.subarray(2), scoc & 0x01, {
+    progressionOrder: base.progressionOrder,
+    layers: base.layers,
+  });
+}
+
+function readComponentCoding(
+  spcod: Uint8Array,
+  hasPrecincts: number,
+  shared: { progressionOrder: number; layers: number }
+): CodingStyle {
+  const decompositionLevels = spcod[0];
+  const codeblockStyle = spcod[3];
+  if (codeblockStyle & STYLE_HT) {
+    throw new Error('High-throughput (Part 15) JPEG2000 code-blocks are not supported');
+  }
+
+  const precinctSizes: { ppx: number; ppy: number }[] = [];
+  for (let r = 0; r <= decompositionLevels; r++) {
+    const packed = hasPrecincts ? spcod[5 + r] : 0xff;
+    precinctSizes.push({ ppx: packed & 0x0f, ppy: packed >> 4 });
+  }
+
+  return {
+    ...shared,
+    decompositionLevels,
+    codeblockWidthExponent: (spcod[1] & 0x0f) + 2,
+    codeblockHeightExponent: (spcod[2] & 0x0f) + 2,
+    codeblockStyle,
+    reversible: spcod[4] === 1,
+    precinctSizes,
+  };
+}
+
+function readQcd(segment: Uint8Array): Quantization {
+  const sqcd = segment[0];
+  const style = sqcd & 0x1f;
+  const exponents: number[] = [];
+  const mantissas: number[] = [];
+
+  if (style === 0) {
+    for (let i = 1; i < segment.length; i++) {
+      exponents.push(segment[i] >> 3);
+      mantissas.push(0);
+    }
+  } else {
+    for (let i = 1; i + 1 < segment.length; i += 2) {
+      const value = (segment[i] << 8) | segment[i + 1];
+      exponents.push(value >> 11);
+      mantissas.push(value & 0x7ff);
+    }
+  }
+
+  return { style, guardBits: sqcd >> 5, exponents, mantissas };
+}
+
+// ---------------------------------------------------------------------------
+// Tile geometry (B.3 - B.7)
+// ---------------------------------------------------------------------------
+
+function buildTile(size: ImageSize, header: TileHeader, tileX: number, tileY: number): Tile {
+  const { coding, quantization } = header;
+  const tx0 = Math.max(size.tileOffsetX + tileX * size.tileWidth, size.offsetX);
+  const ty0 = Math.max(size.tileOffsetY + tileY * size.tileHeight, size.offsetY);
+  const tx1 = Math.min(size.tileOffsetX + (tileX + 1) * size.tileWidth, size.width);
+  const ty1 = Math.min(size.tileOffsetY + (tileY + 1) * size.tileHeight, size.height);
+
+  const tile: Tile = {
+    x0: Math.ceil(tx0 / size.subsamplingX),
+    y0: Math.ceil(ty0 / size.subsamplingY),
+    x1: Math.ceil(tx1 / size.subsamplingX),
+    y1: Math.ceil(ty1 / size.subsamplingY),
+    coding,
+    resolutions: [],
+  };
+
+  const levels = coding.decompositionLevels;
+  for (let r = 0; r <= levels; r++) {
+    const scale = Math.pow(2, levels - r);
+    const { ppx, ppy } = coding.precinctSizes[r];
+    const resolution: Resolution = {
+      x0: Math.ceil(tile.x0 / scale),
+      y0: Math.ceil(tile.y0 / scale),
+      x1: Math.ceil(tile.x1 / scale),
+      y1: Math.ceil(tile.y1 / scale),
+      ppx,
+      ppy,
+      precinctsWide: 0,
+      precinctsHigh: 0,
+      bands: [],
+    };
+    if (resolution.x1 > resolution.x0) {
+      resolution.precinctsWide = Math.ceil(resolution.x1 / (1 << ppx)) - Math.floor(resolution.x0 / (1 << ppx));
+    }
+    if (resolution.y1 > resolution.y0) {
+      resolution.precinctsHigh = Math.ceil(resolution.y1 / (1 << ppy)) - Math.floor(resolution.y0 / (1 << ppy));
+    }
+
+    const bandTypes: BandType[] = r === 0 ? ['LL'] : ['HL', 'LH', 'HH'];
+    bandTypes.forEach((type, bandIndex) => {
+      const level = r === 0 ? levels : levels - r + 1;
+      const quantIndex = r === 0 ? 0 : 1 + (r - 1) * 3 + bandIndex;
+      resolution.bands.push(buildBand(tile, resolution, coding, quantization, size.precision, type, level, quantIndex, r));
+    });
+
+    tile.resolutions.push(resolution);
+  }
+
+  return tile;
+}
+
+function buildBand(
+  tile: Tile,
+  resolution: Resolution,
+  coding: CodingStyle,
+  quantization: Quantization,
+  precision: number,
+  type: BandType,
+  level: number,
+  quantIndex: number,
+  r: number
+): Band {
+  const xob = type === 'HL' || type === 'HH' ? 1 : 0;
+  const yob = type === 'LH' || type === 'HH' ? 1 : 0;
+  const levelScale = Math.pow(2, level);
+  const offsetScale = level > 0 ? Math.pow(2, level - 1) : 0;
+
+  // Scalar derived quantization signals every band from the LL values (E.1.1.1)
+  let exponent: number;
+  let mantissa: number;
+  if (quantization.style === 1) {
+    exponent = quantization.exponents[0] - coding.decompositionLevels + level;
+    mantissa = quantization.mantissas[0];
+  } else {
+    exponent = quantization.exponents[quantIndex];
+    mantissa = quantization.mantissas[quantIndex];
+  }
+  if (exponent === undefined) {
+    throw new Error(`JPEG2000 QCD marker has no entry for subband ${quantIndex}`);
+  }
+
+  const gain = type === 'LL' ? 0 : type === 'HH' ? 2 : 1;
+  const band: Band = {
+    type,
+    x0: Math.ceil((tile.x0 - offsetScale * xob) / levelScale),
+    y0: Math.ceil((tile.y0 - offsetScale * yob) / levelScale),
+    x1: Math.ceil((tile.x1 - offsetScale * xob) / levelScale),
+    y1: Math.ceil((tile.y1 - offsetScale * yob) / levelScale),
+    bitplanes: quantization.guardBits + exponent - 1,
+    stepSize: coding.reversible ? 1 : Math.pow(2, precision + gain - exponent) * (1 + mantissa / 2048),
+    precincts: new Map(),
+    codeblocks: [],
+  };
+
+  // Code-blocks never straddle precinct boundaries (B.7)
+  const bandPpx = r === 0 ? resolution.ppx : resolution.ppx - 1;
+  const bandPpy = r === 0 ? resolution.ppy : resolution.ppy - 1;
+  const xcb = Math.min(coding.codeblockWidthExponent, bandPpx);
+  const ycb = Math.min(coding.codeblockHeightExponent, bandPpy);
+  const cbWidth = 1 << xcb;
+  const cbHeight = 1 << ycb;
+  const precinctWidth = Math.pow(2, bandPpx);
+  const precinctHeight = Math.pow(2, bandPpy);
+
+  if (band.x1 <= band.x0 || band.y1 <= band.y0) return band;
+
+  for (let cby = Math.floor(band.y0 / cbHeight); cby * cbHeight < band.y1; cby++) {
+    for (let cbx = Math.floor(band.x0 / cbWidth); cbx * cbWidth < band.x1; cbx++) {
+      const codeblock: CodeBlock = {
+        x0: Math.max(band.x0, cbx * cbWidth),
+        y0: Math.max(band.y0, cby * cbHeight),
+        x1: Math.min(band.x1, (cbx + 1) * cbWidth),
+        y1: Math.min(band.y1, (cby + 1) * cbHeight),
+        precinctX: 0,
+        precinctY: 0,
+        included: false,
+        zeroBitplanes: 0,
+        lblock: 3,
+        segments: [],
+      };
+      if (codeblock.x1 <= codeblock.x0 || codeblock.y1 <= codeblock.y0) continue;
+
+      // Precinct k of the resolution covers band samples [k * size, (k + 1) * size)
+      const px = Math.min(
+        resolution.precinctsWide - 1,
+        Math.floor(codeblock.x0 / precinctWidth) - Math.floor(resolution.x0 / (1 << resolution.ppx))
+      );
+      const py = Math.min(
+        resolution.precinctsHigh - 1,
+        Math.floor(codeblock.y0 / precinctHeight) - Math.floor(resolution.y0 / (1 << resolution.ppy))
+      );
+      const precinctIndex = px + py * resolution.precinctsWide;
+
+      let precinct = band.precincts.get(precinctIndex);
+      if (!precinct) {
+        precinct = {
+          codeblocks: [],
+          cbxMin: cbx,
+          cbyMin: cby,
+          cbxMax: cbx,
+          cbyMax: cby,
+          inclusionTree: null,
+          zeroBitplaneTree: null,
+        };
+        band.precincts.set(precinctIndex, precinct);
+      }
+      precinct.cbxMin = Math.min(precinct.cbxMin, cbx);
+      precinct.cbyMin = Math.min(precinct.cbyMin, cby);
+      precinct.cbxMax = Math.max(precinct.cbxMax, cbx);
+      precinct.cbyMax = Math.max(precinct.cbyMax, cby);
+      // Stash absolute indices for now, made precinct-relative once bounds are known
+      codeblock.precinctX = cbx;
+      codeblock.precinctY = cby;
+      precinct.codeblocks.push(codeblock);
+      band.codeblocks.push(codeblock);
+    }
+  }
+
+  band.precincts.forEach(precinct => {
+    const wide = precinct.cbxMax - precinct.cbxMin + 1;
+    const high = precinct.cbyMax - precinct.cbyMin + 1;
+    precinct.inclusionTree = new TagTree(wide, high);
+    precinct.zeroBitplaneTree = new TagTree(wide, high);
+    precinct.codeblocks.forEach(codeblock => {
+      codeblock.precinctX -= precinct.cbxMin;
+      codeblock.precinctY -= precinct.cbyMin;
+    });
+  });
+
+  return band;
+}
+
+// ---------------------------------------------------------------------------
+// Tier-2: packets (B.9, B.10, B.12)
+// ---------------------------------------------------------------------------
+
+function buildPacketOrder(tile: Tile): PacketId[] {
+  const { layers, progressionOrder } = tile.coding;
+  const resolutions = tile.resolutions;
+  const packets: PacketId[] = [];
+
+  const precinctCount = (r: number) => resolutions[r].precinctsWide * resolutions[r].precinctsHigh;
+
+  if (progressionOrder === 0) {
+    // Layer-resolution-component-position
+    for (let layer = 0; layer < layers; layer++) {
+      for (let r = 0; r < resolutions.length; r++) {
+        for (let p = 0; p < precinctCount(r); p++) packets.push({ layer, resolution: r, precinct: p });
+      }
+    }
+    return packets;
+  }
+
+  if (progressionOrder === 1) {
+    // Resolution-layer-component-position
+    for (let r = 0; r < resolutions.length; r++) {
+      for (let layer = 0; layer < layers; layer++) {
+        for (let p = 0; p < precinctCount(r); p++) packets.push({ layer, resolution: r, precinct: p });
+      }
+    }
+    return packets;
+  }
+
+  if (progressionOrder > 4) {
+    throw new Error(`Unknown JPEG2000 progression order ${progressionOrder}`);
+  }
+
+  // Position-driven orders: place each precinct on the tile-component grid
+  const levels = tile.coding.decompositionLevels;
+  const positions: { r: number; p: number; x: number; y: number }[] = [];
+  resolutions.forEach((resolution, r) => {
+    const scale = Math.pow(2, levels - r);
+    const precinctWidth = 1 << resolution.ppx;
+    const precinctHeight = 1 << resolution.ppy;
+    const firstX = Math.floor(resolution.x0 / precinctWidth);
+    const firstY = Math.floor(resolution.y0 / precinctHeight);
+    const alignedX = resolution.x0 % precinctWidth === 0;
+    const alignedY = resolution.y0 % precinctHeight === 0;
+
+    for (let py = 0; py < resolution.precinctsHigh; py++) {
+      for (let px = 0; px < resolution.precinctsWide; px++) {
+        positions.push({
+          r,
+          p: px + py * resolution.precinctsWide,
+          x: px === 0 && !alignedX ? tile.x0 : (firstX + px) * precinctWidth * scale,
+          y: py === 0 && !alignedY ? tile.y0 : (firstY + py) * precinctHeight * scale,
+        });
+      }
+    }
+  });
+
+  if (progressionOrder === 2) {
+    // Resolution-position-component-layer
+    positions.sort((a, b) => a.r - b.r || a.y - b.y || a.x - b.x);
+  } else {
+    // Position-component-resolution-layer and component-position-resolution-layer
+    // coincide for a single component
+    positions.sort((a, b) => a.y - b.y || a.x - b.x || a.r - b.r);
+  }
+
+  positions.forEach(({ r, p }) => {
+    for (let layer = 0; layer < layers; layer++) packets.push({ layer, resolution: r, precinct: p });
+  });
+  return packets;
+}
+
+function readPackets(data: Uint8Array, tile: Tile): void {
+  let position = 0;
+  const codeblockStyle = tile.coding.codeblockStyle;
+
+  for (const packet of buildPacketOrder(tile)) {
+    if (position >= data.length) break; // truncated codestream: decode what we have
+
+    if (data[position] === 0xff && data[position + 1] === (SOP & 0xff)) {
+      position += 6;
+    }
+
+    const reader = new PacketHeaderReader(data, position);
+    const contributions: { segment: Segment; length: number }[] = [];
+
+    if (reader.readBit()) {
+      const resolution = tile.resolutions[packet.resolution];
+      for (const band of resolution.bands) {
+        const precinct = band.precincts.get(packet.precinct);
+        if (!precinct) continue;
+
+        for (const codeblock of precinct.codeblocks) {
+          let included: boolean;
+          if (!codeblock.included) {
+            included = precinct.inclusionTree!.decode(reader, codeblock.precinctX, codeblock.precinctY, packet.layer + 1);
+          } else {
+            included = reader.readBit() === 1;
+          }
+          if (!included) continue;
+
+          if (!codeblock.included) {
+            let zeroBitplanes = 0;
+            while (!precinct.zeroBitplaneTree!.decode(reader, codeblock.precinctX, codeblock.precinctY, zeroBitplanes + 1)) {
+              zeroBitplanes++;
+            }
+            codeblock.zeroBitplanes = zeroBitplanes;
+            codeblock.included = true;
+          }
+
+          let passes = readPassCount(reader);
+          while (reader.readBit()) codeblock.lblock++;
+
+          while (passes > 0) {
+            let segment = codeblock.segments[codeblock.segments.length - 1];
+            if (!segment || segment.passes >= segment.maxPasses) {
+              segment = { maxPasses: nextSegmentPasses(codeblock, codeblockStyle), passes: 0, chunks: [] };
+              codeblock.segments.push(segment);
+            }
+            const take = Math.min(segment.maxPasses - segment.passes, passes);
+            const length = reader.readBits(codeblock.lblock + Math.floor(Math.log2(take)));
+            segment.passes += take;
+            passes -= take;
+            contributions.push({ segment, length });
+          }
+        }
+      }
+    }
+
+    position = reader.align();
+    if (data[position] === 0xff && data[position + 1] === (EPH & 0xff)) {
+      position += 2;
+    }
+
+    for (const { segment, length } of contributions) {
+      segment.chunks.push(data.subarray(position, Math.min(position + length, data.length)));
+      position += length;
+    }
+  }
+}
+
+function readPassCount(reader: PacketHeaderReader): number {
+  if (!reader.readBit()) return 1;
+  if (!reader.readBit()) return 2;
+  const short = reader.readBits(2);
+  if (short < 3) return 3 + short;
+  const medium = reader.readBits(5);
+  if (medium < 31) return 6 + medium;
+  return 37 + reader.readBits(7);
+}
+
+function nextSegmentPasses(codeblock: CodeBlock, style: number): number {
+  if (style & STYLE_TERMALL) return 1;
+  if (style & STYLE_BYPASS) {
+    const previous = codeblock.segments[codeblock.segments.length - 1];
+    if (!previous) return 10;
+    return previous.maxPasses === 1 || previous.maxPasses === 10 ? 2 : 1;
+  }
+  return Infinity;
+}
+
+class PacketHeaderReader {
+  private current = 0;
+  private bitsLeft = 0;
+
+  constructor(private data: Uint8Array, private position: number) {}
+
+  readBit(): number {
+    if (this.bitsLeft === 0) {
+      // A byte following 0xFF carries a stuffed zero in its top bit
+      const stuffed = this.current === 0xff;
+      this.current = this.position < this.data.length ? this.data[this.position] : 0;
+      this.position++;
+      this.bitsLeft = stuffed ? 7 : 8;
+    }
+    this.bitsLeft--;
+    return (this.current >> this.bitsLeft) & 1;
+  }
+
+  readBits(count: number): number {
+    let value = 0;
+    for (let i = 0; i < count; i++) value = value * 2 + this.readBit();
+    return value;
+  }
+
+  /** Finish the header on a byte boundary and return the body start. */
+  align(): number {
+    if (this.current === 0xff) this.position++;
+    this.current = 0;
+    this.bitsLeft = 0;
+    return this.position;
+  }
+}
+
+class TagTree {
+  private levels: { width: number; values: Int32Array; lows: Int32Array }[] = [];
+
+  constructor(width: number, height: number) {
+    let levelWidth = width;
+    let levelHeight = height;
+    for (;;) {
+      const count = levelWidth * levelHeight;
+      this.levels.push({
+        width: levelWidth,
+        values: new Int32Array(count).fill(0x7fffffff),
+        lows: new Int32Array(count),
+      });
+      if (levelWidth === 1 && levelHeight === 1) break;
+      levelWidth = Math.ceil(levelWidth / 2);
+      levelHeight = Math.ceil(levelHeight / 2);
+    }
+  }
+
+  /** Returns true when the leaf value at (x, y) is below `threshold` (B.10.2). */
+  decode(reader: PacketHeaderReader, x: number, y: number, threshold: number): boolean {
+    let low = 0;
+    let index = 0;
+    for (let k = this.levels.length - 1; k >= 0; k--) {
+      const level = this.levels[k];
+      index = (y >> k) * level.width + (x >> k);
+      if (low > level.lows[index]) level.lows[index] = low;
+      else low = level.lows[index];
+
+      while (low < threshold && low < level.values[index]) {
+        if (reader.readBit()) level.values[index] = low;
+        else low++;
+      }
+      level.lows[index] = low;
+    }
+    return this.levels[0].values[index] < threshold;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Tier-1: code-block decoding (Annex C and D)
+// ---------------------------------------------------------------------------
+
+const QE = [
+  0x5601, 0x3401, 0x1801, 0x0ac1, 0x0521, 0x0221, 0x5601, 0x5401, 0x4801, 0x3801,
+  0x3001, 0x2401, 0x1c01, 0x1601, 0x5601, 0x5401, 0x5101, 0x4801, 0x3801, 0x3401,
+  0x3001, 0x2801, 0x2401, 0x2201, 0x1c01, 0x1801, 0x1601, 0x1401, 0x1201, 0x1101,
+  0x0ac1, 0x09c1, 0x08a1, 0x0521, 0x0441, 0x02a1, 0x0221, 0x0141, 0x0111, 0x0085,
+  0x0049, 0x0025, 0x0015, 0x0009, 0x0005, 0x0001, 0x5601,
+];
+const NMPS = [
+  1, 2, 3, 4, 5, 38, 7, 8, 9, 10, 11, 12, 13, 29, 15, 16, 17, 18, 19, 20, 21, 22, 23, 24,
+  25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 37, 38, 39, 40, 41, 42, 43, 44, 45, 45, 46,
+];
+const NLPS = [
+  1, 6, 9, 12, 29, 33, 6, 14, 14, 14, 17, 18, 20, 21, 14, 14, 15, 16, 17, 18, 19, 19, 20, 21,
+  22, 23, 24, 25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 37, 38, 39, 40, 41, 42, 43, 46,
+];
+const SWITCH = [1, 0, 0, 0, 0, 0, 1, 0, 0, 0, 0, 0, 0, 0, 1];
+
+const CONTEXT_COUNT = 19;
+const RUNLENGTH_CONTEXT = 17;
+const UNIFORM_CONTEXT = 18;
+
+interface BitSource {
+  readBit(context: number): number;
+}
+
+/** MQ arithmetic decoder (C.3). Context state is (index << 1) | mps. */
+class MqDecoder implements BitSource {
+  private position = 0;
+  private c = 0;
+  private a = 0;
+  private ct = 0;
+
+  constructor(private data: Uint8Array, private contexts: Uint8Array) {
+    this.c = (data[0] ?? 0xff) << 16;
+    this.byteIn();
+    this.c <<= 7;
+    this.ct -= 7;
+    this.a = 0x8000;
+  }
+
+  private byteIn(): void {
+    const data = this.data;
+    if (data[this.position] === 0xff) {
+      const next = data[this.position + 1] ?? 0xff;
+      if (next > 0x8f) {
+        this.c += 0xff00;
+        this.ct = 8;
+      } else {
+        this.position++;
+        this.c += next << 9;
+        this.ct = 7;
+      }
+    } else {
+      this.position++;
+      this.c += (this.position < data.length ? data[this.position] : 0xff) << 8;
+      this.ct = 8;
+    }
+  }
+
+  readBit(context: number): number {
+    const state = this.contexts[context];
+    let index = state >> 1;
+    let mps = state & 1;
+    const qe = QE[index];
+    let bit: number;
+
+    this.a -= qe;
+    if ((this.c >>> 16) < qe) {
+      // LPS exchange
+      if (this.a < qe) {
+        bit = mps;
+        index = NMPS[index];
+      } else {
+        bit = 1 - mps;
+        if (SWITCH[index]) mps = 1 - mps;
+        index = NLPS[index];
+      }
+      this.a = qe;
+    } else {
+      this.c -= qe << 16;
+      if (this.a & 0x8000) return mps;
+      // MPS exchange
+      if (this.a < qe) {
+        bit = 1 - mps;
+        if (SWITCH[index]) mps = 1 - mps;
+        index = NLPS[index];
+      } else {
+        bit = mps;
+        index = NMPS[index];
+      }
+    }
+
+    do {
+      if (this.ct === 0) this.byteIn();
+      this.a <<= 1;
+      this.c = (this.c << 1) >>> 0;
+      this.ct--;
+    } while ((this.a & 0x8000) === 0);
+
+    this.contexts[context] = (index << 1) | mps;
+    return bit;
+  }
+}
+
+/** Raw (bypass) bit reader for lazy-mode passes (D.6). */
+class RawDecoder implements BitSource {
+  private position = 0;
+  private current = 0;
+  private bitsLeft = 0;
+
+  constructor(private data: Uint8Array) {}
+
+  readBit(): number {
+    if (this.bitsLeft === 0) {
+      const stuffed = this.current === 0xff;
+      this.current = this.position < this.data.length ? this.data[this.position++] : 0xff;
+      this.bitsLeft = stuffed ? 7 : 8;
+    }
+    this.bitsLeft--;
+    return (this.current >> this.bitsLeft) & 1;
+  }
+}
+
+function resetContexts(contexts: Uint8Array): void {
+  contexts.fill(0);
+  contexts[0] = 4 << 1;
+  contexts[RUNLENGTH_CONTEXT] = 3 << 1;
+  contexts[UNIFORM_CONTEXT] = 46 << 1;
+}
+
+// Zero coding context labels (Table D.1)
+function zeroCodingContext(h: number, v: number, d: number, band: BandType): number {
+  if (band === 'HH') {
+    const hv = h + v;
+    if (d >= 3) return 8;
+    if (d === 2) return hv >= 1 ? 7 : 6;
+    if (d === 1) return hv >= 2 ? 5 : hv === 1 ? 4 : 3;
+    return hv >= 2 ? 2 : hv;
+  }
+  if (band === 'HL') {
+    const swap = h;
+    h = v;
+    v = swap;
+  }
+  if (h === 2) return 8;
+  if (h === 1) return v >= 1 ? 7 : d >= 1 ? 6 : 5;
+  if (v === 2) return 4;
+  if (v === 1) return 3;
+  return d >= 2 ? 2 : d;
+}
+
+/**
+ * Decode one code-block into signed coefficient values (before step-size scaling).
+ */
+function decodeCodeBlock(codeblock: CodeBlock, band: Band, style: number, reversible: boolean): Float64Array {
+  const width = codeblock.x1 - codeblock.x0;
+  const height = codeblock.y1 - codeblock.y0;
+  const stride = width + 2;
+  const result = new Float64Array(width * height);
+
+  const totalPasses = codeblock.segments.reduce((sum, segment) => sum + segment.passes, 0);
+  const topPlane = band.bitplanes - 1 - codeblock.zeroBitplanes;
+  if (totalPasses === 0 || topPlane < 0) return result;
+
+  // Significance, sign and state arrays carry a one-sample border
+  const significant = new Uint8Array(stride * (height + 2));
+  const negative = new Uint8Array(stride * (height + 2));
+  const visited = new Uint8Array(stride * (height + 2));
+  const refined = new Uint8Array(stride * (height + 2));
+  const magnitude = new Float64Array(stride * (height + 2));
+  const contexts = new Uint8Array(CONTEXT_COUNT);
+  resetContexts(contexts);
+
+  const causal = (style & STYLE_CAUSAL) !== 0;
+  const type = band.type;
+
+  const neighbourCounts = (pos: number, y: number) => {
+    const below = !(causal && (y & 3) === 3);
+    const h = significant[pos - 1] + significant[pos + 1];
+    const v = significant[pos - stride] + (below ? significant[pos + stride] : 0);
+    const d = significant[pos - stride - 1] + significant[pos - stride + 1] +
+      (below ? significant[pos + stride - 1] + significant[pos + stride + 1] : 0);
+    return { h, v, d };
+  };
+
+  const contribution = (pos: number) => (significant[pos] ? (negative[pos] ? -1 : 1) : 0);
+
+  const decodeSign = (source: BitSource, pos: number, y: number) => {
+    const below = !(causal && (y & 3) === 3);
+    const h = Math.max(-1, Math.min(1, contribution(pos - 1) + contribution(pos + 1)));
+    const v = Math.max(-1, Math.min(1, contribution(pos - stride) + (below ? contribution(pos + stride) : 0)));
+    // Table D.3
+    let context: number;
+    let xorBit = 0;
+    if (h === 1) context = v === 1 ? 13 : v === 0 ? 12 : 11;
+    else if (h === 0) {
+      context = v === 0 ? 9 : 10;
+      xorBit = v === -1 ? 1 : 0;
+    } else {
+      context = v === 1 ? 11 : v === 0 ? 12 : 13;
+      xorBit = 1;
+    }
+    return source.readBit(context) ^ xorBit;
+  };
+
+  const becomeSignificant = (source: BitSource, pos: number, y: number, planeValue: number, raw: boolean) => {
+    negative[pos] = raw ? source.readBit(0) : decodeSign(source, pos, y);
+    significant[pos] = 1;
+    magnitude[pos] += planeValue;
+  };
+
+  const significancePass = (source: BitSource, planeValue: number, raw: boolean) => {
+    for (let stripe = 0; stripe < height; stripe += 4) {
+      const stripeEnd = Math.min(stripe + 4, height);
+      for (let x = 0; x < width; x++) {
+        for (let y = stripe; y < stripeEnd; y++) {
+          const pos = (y + 1) * stride + x + 1;
+          if (significant[pos]) continue;
+          const { h, v, d } = neighbourCounts(pos, y);
+          if (h + v + d === 0) continue;
+          visited[pos] = 1;
+          const bit = raw ? source.readBit(0) : source.readBit(zeroCodingContext(h, v, d, type));
+          if (bit) becomeSignificant(source, pos, y, planeValue, raw);
+        }
+      }
+    }
+  };
+
+  const refinementPass = (source: BitSource, planeValue: number, raw: boolean) => {
+    for (let stripe = 0; stripe < height; stripe += 4) {
+      const stripeEnd = Math.min(stripe + 4, height);
+      for (let x = 0; x < width; x++) {
+        for (let y = stripe; y < stripeEnd; y++) {
+          const pos = (y + 1) * stride + x + 1;
+          if (!significant[pos] || visited[pos]) continue;
+          let context = 16;
+          if (!refined[pos]) {
+            const { h, v, d } = neighbourCounts(pos, y);
+            context = h + v + d > 0 ? 15 : 14;
+          }
+          if (raw ? source.readBit(0) : source.readBit(context)) magnitude[pos] += planeValue;
+          refined[pos] = 1;
+        }
+      }
+    }
+  };
+
+  const cleanupPass = (source: BitSource, planeValue: number) => {
+    for (let stripe = 0; stripe < height; stripe += 4) {
+      const stripeEnd = Math.min(stripe + 4, height);
+      for (let x = 0; x < width; x++) {
+        let y = stripe;
+
+        if (stripeEnd - stripe === 4) {
+          let runLength = true;
+          for (let k = stripe; k < stripeEnd && runLength; k++) {
+            const pos = (k + 1) * stride + x + 1;
+            const { h, v, d } = neighbourCounts(pos, k);
+            runLength = !significant[pos] && !visited[pos] && h + v + d === 0;
+          }
+          if (runLength) {
+            if (!source.readBit(RUNLENGTH_CONTEXT)) continue;
+            const offset = (source.readBit(UNIFORM_CONTEXT) << 1) | source.readBit(UNIFORM_CONTEXT);
+            y = stripe + offset;
+            becomeSignificant(source, (y + 1) * stride + x + 1, y, planeValue, false);
+            y++;
+          }
+        }
+
+        for (; y < stripeEnd; y++) {
+          const pos = (y + 1) * stride + x + 1;
+          if (significant[pos] || visited[pos]) continue;
+          const { h, v, d } = neighbourCounts(pos, y);
+          if (source.readBit(zeroCodingContext(h, v, d, type))) {
+            becomeSignificant(source, pos, y, planeValue, false);
+          }
+        }
+      }
+    }
+
+    if (style & STYLE_SEGMARK) {
+      for (let i = 0; i < 4; i++) source.readBit(UNIFORM_CONTEXT);
+    }
+    visited.fill(0);
+  };
+
+  let passIndex = 0;
+  let lowestPlane = topPlane + 1;
+  let lastPassType = 2;
+
+  for (const segment of codeblock.segments) {
+    if (segment.passes === 0) continue;
+    const data = concatenate([...segment.chunks, new Uint8Array([0xff, 0xff])]);
+    const firstType = passIndex === 0 ? 2 : (passIndex - 1) % 3;
+    const raw = (style & STYLE_BYPASS) !== 0 && passIndex >= 10 && firstType !== 2;
+    const source: BitSource = raw ? new RawDecoder(data) : new MqDecoder(data, contexts);
+
+    for (let i = 0; i < segment.passes; i++, passIndex++) {
+      const passType = passIndex === 0 ? 2 : (passIndex - 1) % 3;
+      const plane = topPlane - Math.floor((passIndex + 2) / 3);
+      if (plane < 0) break;
+      const planeValue = Math.pow(2, plane);
+
+      if (passType === 0) significancePass(source, planeValue, raw);
+      else if (passType === 1) refinementPass(source, planeValue, raw);
+      else cleanupPass(source, planeValue);
+
+      lowestPlane = plane;
+      lastPassType = passType;
+      if (style & STYLE_RESET) resetContexts(contexts);
+    }
+  }
+
+  // Reconstruct truncated coefficients half-way into the undecoded range (E.1.1.2)
+  const completePlane = lastPassType === 2 ? lowestPlane : lowestPlane + 1;
+  const halfStep = reversible && completePlane === 0 ? 0 : Math.pow(2, completePlane) / 2;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pos = (y + 1) * stride + x + 1;
+      const value = magnitude[pos];
+      if (value === 0) continue;
+      const reconstructed = value + halfStep;
+      result[y * width + x] = negative[pos] ? -reconstructed : reconstructed;
+    }
+  }
+
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Inverse wavelet transform (Annex F)
+// ---------------------------------------------------------------------------
+
+interface Plane {
+  x0: number;
+  y0: number;
+  width: number;
+  height: number;
+  data: Float64Array;
+}
+
+function reconstructTile(tile: Tile): Plane {
+  const { reversible, codeblockStyle } = tile.coding;
+
+  const bandPlane = (band: Band): Plane => {
+    const width = Math.max(0, band.x1 - band.x0);
+    const height = Math.max(0, band.y1 - band.y0);
+    const data = new Float64Array(width * height);
+    for (const codeblock of band.codeblocks) {
+      const values = decodeCodeBlock(codeblock, band, codeblockStyle, reversible);
+      const blockWidth = codeblock.x1 - codeblock.x0;
+      for (let y = codeblock.y0; y < codeblock.y1; y++) {
+        const target = (y - band.y0) * width + (codeblock.x0 - band.x0);
+        const source = (y - codeblock.y0) * blockWidth;
+        for (let x = 0; x < blockWidth; x++) data[target + x] = values[source + x] * band.stepSize;
+      }
+    }
+    return { x0: band.x0, y0: band.y0, width, height, data };
+  };
+
+  let current = bandPlane(tile.resolutions[0].bands[0]);
+
+  for (let r = 1; r < tile.resolutions.length; r++) {
+    const resolution = tile.resolutions[r];
+    const width = resolution.x1 - resolution.x0;
+    const height = resolution.y1 - resolution.y0;
+    const data = new Float64Array(width * height);
+
+    // 2D_INTERLEAVE (F.3.3)
+    const place = (plane: Plane, xob: number, yob: number) => {
+      for (let y = 0; y < plane.height; y++) {
+        const v = 2 * (plane.y0 + y) + yob - resolution.y0;
+        if (v < 0 || v >= height) continue;
+        for (let x = 0; x < plane.width; x++) {
+          const u = 2 * (plane.x0 + x) + xob - resolution.x0;
+          if (u < 0 || u >= width) continue;
+          data[v * width + u] = plane.data[y * plane.width + x];
+        }
+      }
+    };
+    place(current, 0, 0);
+    resolution.bands.forEach(band => {
+      const plane = bandPlane(band);
+      place(plane, band.type === 'LH' ? 0 : 1, band.type === 'HL' ? 0 : 1);
+    });
+
+    const line = new Float64Array(Math.max(width, height));
+    const scratch = new Float64Array(Math.max(width, height) + 2 * SYNTHESIS_PADDING);
+
+    // HOR_SR then VER_SR (F.3.4, F.3.5)
+    for (let y = 0; y < height; y++) {
+      const row = line.subarray(0, width);
+      row.set(data.subarray(y * width, (y + 1) * width));
+      synthesize1D(row, resolution.x0, reversible, scratch);
+      data.set(row, y * width);
+    }
+    for (let x = 0; x < width; x++) {
+      const column = line.subarray(0, height);
+      for (let y = 0; y < height; y++) column[y] = data[y * width + x];
+      synthesize1D(column, resolution.y0, reversible, scratch);
+      for (let y = 0; y < height; y++) data[y * width + x] = column[y];
+    }
+
+    current = { x0: resolution.x0, y0: resolution.y0, width, height, data };
+  }
+
+  return current;
+}
+
+const SYNTHESIS_PADDING = 4;
+const ALPHA = -1.586134342059924;
+const BETA = -0.052980118572961;
+const GAMMA = 0.882911075530934;
+const DELTA = 0.443506852043971;
+const K = 1.230174104914001;
+
+/**
+ * 1D_SR (F.3.6): inverse lifting over a line whose first sample sits at
+ * absolute coordinate `start`. Even coordinates hold low-pass samples.
+ */
+function synthesize1D(line: Float64Array, start: number, reversible: boolean, scratch: Float64Array): void {
+  const length = line.length;
+  if (length === 0) return;
+  if (length === 1) {
+    if (start & 1) line[0] /= 2;
+    return;
+  }
+
+  // Periodic symmetric extension (F.3.7)
+  const period = 2 * (length - 1);
+  const extended = length + 2 * SYNTHESIS_PADDING;
+  for (let k = 0; k < extended; k++) {
+    let source = (((k - SYNTHESIS_PADDING) % period) + period) % period;
+    if (source >= length) source = period - source;
+    scratch[k] = line[source];
+  }
+
+  // SYNTHESIS_PADDING is even, so scratch index parity matches (start + k)
+  const isEven = (k: number) => ((start + k) & 1) === 0;
+
+  if (reversible) {
+    for (let k = 1; k < extended - 1; k++) {
+      if (isEven(k)) scratch[k] -= Math.floor((scratch[k - 1] + scratch[k + 1] + 2) / 4);
+    }
+    for (let k = 1; k < extended - 1; k++) {
+      if (!isEven(k)) scratch[k] += Math.floor((scratch[k - 1] + scratch[k + 1]) / 2);
+    }
+  } else {
+    for (let k = 0; k < extended; k++) scratch[k] *= isEven(k) ? K : 1 / K;
+    const lift = (even: boolean, factor: number) => {
+      for (let k = 1; k < extended - 1; k++) {
+        if (isEven(k) === even) scratch[k] -= factor * (scratch[k - 1] + scratch[k + 1]);
+      }
+    };
+    lift(true, DELTA);
+    lift(false, GAMMA);
+    lift(true, BETA);
+    lift(false, ALPHA);
+  }
+
+  for (let k = 0; k < length; k++) line[k] = scratch[k + SYNTHESIS_PADDING];
+}
+
+function concatenate(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -0,0 +1,153 @@
+/**
+ * Minimal PNG decoder for GRIB2 data representation template 5.41.
+ *
+ * GRIB2 producers write the packed integers as a non-interlaced greyscale
+ * (1-16 bit), RGB (24 bit) or RGBA (32 bit) image. We only need the raw
+ * sample values back, so colour handling is limited to reassembling the
+ * channel bytes of each pixel into one integer.
+ */
+
+import { inflate } from 'pako';
+import { readBits } from './gribBinary';
+
+export interface DecodedPng {
+  width: number;
+  height: number;
+  bitDepth: number;
+  channels: number;
+  samples: Uint32Array;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const CHANNELS_BY_COLOR_TYPE: Record<number, number> = {
+  0: 1, // greyscale
+  2: 3, // RGB
+  4: 2, // greyscale + alpha
+  6: 4, // RGBA
+};
+
+export function decodePng(data: Uint8Array): DecodedPng {
+  for (let i = 0; i < PNG_SIGNATURE.length; i++) {
+    if (data[i] !== PNG_SIGNATURE[i]) {
+      throw new Error('Data section does not start with a PNG signature');
+    }
+  }
+
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const idatChunks: Uint8Array[] = [];
+  let width = 0;
+  let height = 0;
+  let bitDepth = 0;
+  let colorType = 0;
+  let interlace = 0;
+  let offset = PNG_SIGNATURE.length;
+
+  while (offset + 8 <= data.length) {
+    const chunkLength = view.getUint32(offset);
+    const chunkType = String.fromCharCode(...data.subarray(offset + 4, offset + 8));
+    const chunkStart = offset + 8;
+
+    if (chunkType === 'IHDR') {
+      width = view.getUint32(chunkStart);
+      height = view.getUint32(chunkStart + 4);
+      bitDepth = data[chunkStart + 8];
+      colorType = data[chunkStart + 9];
+      interlace = data[chunkStart + 12];
+    } else if (chunkType === 'IDAT') {
+      idatChunks.push(data.subarray(chunkStart, chunkStart + chunkLength));
+    } else if (chunkType === 'IEND') {
+      break;
+    }
+
+    offset = chunkStart + chunkLength + 4; // skip CRC
+  }
+
+  const channels = CHANNELS_BY_COLOR_TYPE[colorType];
+  if (!width || !height || !channels) {
+    throw new Error(`Unsupported PNG header: ${width}x${height}, colour type ${colorType}`);
+  }
+  if (interlace !== 0) {
+    throw new Error('Interlaced PNG data sections are not supported');
+  }
+
+  const compressed = concatenate(idatChunks);
+  const inflated = inflate(compressed);
+
+  const bitsPerPixel = bitDepth * channels;
+  const bytesPerPixel = Math.max(1, bitsPerPixel >> 3);
+  const rowBytes = Math.ceil((width * bitsPerPixel) / 8);
+  const pixels = unfilterScanlines(inflated, height, rowBytes, bytesPerPixel);
+
+  const samples = new Uint32Array(width * height);
+  for (let row = 0; row < height; row++) {
+    const rowOffset = row * rowBytes;
+    for (let col = 0; col < width; col++) {
+      samples[row * width + col] = readBits(pixels, rowOffset * 8 + col * bitsPerPixel, bitsPerPixel);
+    }
+  }
+
+  return { width, height, bitDepth, channels, samples };
+}
+
+/**
+ * Reverse the per-scanline filters (None, Sub, Up, Average, Paeth).
+ * Returns the raw pixel bytes with the filter-type bytes removed.
+ */
+function unfilterScanlines(filtered: Uint8Array, height: number, rowBytes: number, bytesPerPixel: number): Uint8Array {
+  if (filtered.length < height * (rowBytes + 1)) {
+    throw new Error(`PNG image data is truncated: ${filtered.length} bytes for ${height} rows of ${rowBytes}`);
+  }
+
+  const output = new Uint8Array(height * rowBytes);
+
+  for (let row = 0; row < height; row++) {
+    const filterType = filtered[row * (rowBytes + 1)];
+    const source = row * (rowBytes + 1) + 1;
+    const target = row * rowBytes;
+    const previous = target - rowBytes;
+
+    for (let i = 0; i < rowBytes; i++) {
+      const raw = filtered[source + i];
+      const left = i >= bytesPerPixel ? output[target + i - bytesPerPixel] : 0;
+      const up = row > 0 ? output[previous + i] : 0;
+      const upLeft = row > 0 && i >= bytesPerPixel ? output[previous + i - bytesPerPixel] : 0;
+
+      let value: number;
+      switch (filterType) {
+        case 0: value = raw; break;
+        case 1: value = raw + left; break;
+        case 2: value = raw + up; break;
+        case 3: value = raw + ((left + up) >> 1); break;
+        case 4: value = raw + paethPredictor(left, up, upLeft); break;
+        default:
+          throw new Error(`Unknown PNG filter type ${filterType} on row ${row}`);
+      }
+      output[target + i] = value & 0xff;
+    }
+  }
+
+  return output;
+}
+
+function paethPredictor(left: number, up: number, upLeft: number): number {
+  const estimate = left + up - upLeft;
+  const distanceLeft = Math.abs(estimate - left);
+  const distanceUp = Math.abs(estimate - up);
+  const distanceUpLeft = Math.abs(estimate - upLeft);
+
+  if (distanceLeft <= distanceUp && distanceLeft <= distanceUpLeft) return left;
+  if (distanceUp <= distanceUpLeft) return up;
+  return upLeft;
+}
+
+function concatenate(chunks: Uint8Array[]): Uint8Array {
+  const total = chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -0,0 +1,468 @@
+/**
+ * Full-resolution decoded field.
+ *
+ * A RadarGrid keeps every value of a GRIB2 field in a Float32Array together
+ * with the geometry needed to place it, so views can crop, look up and thin
+ * the data themselves instead of working from a pre-sampled point cloud.
+ */
+
+import type { RadarDataPoint } from './gribProcessor';
+import { GribParameter, isMissingValue } from './gribParameters';
+import {
+  GridBounds,
+  GridDefinition,
+  gridResolutionDegrees,
+  offsetGridDefinition,
+  scaleGridDefinition,
+} from './gribProjection';
+
+export interface RadarGrid {
+  width: number; // ni
+  height: number; // nj
+  values: Float32Array; // width × height in storage order, NaN where missing
+  geometry: GridDefinition;
+  parameter: GribParameter;
+}
+
+export interface ValueRange {
+  min: number;
+  max: number;
+}
+
+export interface GridStatistics {
+  min: number;
+  max: number;
+  mean: number;
+  count: number; // cells with a value (inside the range, if one was given)
+}
+
+// How a block of cells becomes one cell when downsampling. Max keeps storm
+// cores visible; mean smooths; nearest takes the block's centre cell.
+export type GridReducer = 'max' | 'mean' | 'nearest';
+
+export interface GridPointOptions {
+  maxPoints?: number;
+  valueRange?: ValueRange;
+  bounds?: GridBounds;
+  reducer?: GridReducer;
+}
+
+export interface GridResampleOptions {
+  stride?: number; // keep one cell per stride × stride block
+  resolution?: number; // target cell size in degrees, used when no stride is given
+  bounds?: GridBounds; // only keep this lat/lon box
+  maxCells?: number; // upper limit on width × height; the stride grows until the grid fits
+  reducer?: GridReducer; // defaults to max
+}
+
+// Builds a resampled grid from values handed over one grid point at a time
+export interface GridResampler {
+  store(point: number, value: number): void; // point in storage order
+  finish(): RadarGrid;
+}
+
+interface CellWindow {
+  i0: number;
+  i1: number; // inclusive
+  j0: number;
+  j1: number; // inclusive
+}
+
+type GridShape = Pick<RadarGrid, 'width' | 'height' | 'geometry'>;
+
+// The cells resampling keeps and how many of them merge into one each way
+interface ResamplePlan {
+  window: CellWindow | null; // null when nothing is left
+  stride: number;
+}
+
+const DEFAULT_MAX_POINTS = 5000;
+
+/**
+ * Wrap decoded values in a grid. The parameter's missing-value sentinels are
+ * replaced by NaN in place so consumers only have one thing to check.
+ */
+export function createRadarGrid(values: Float32Array, geometry: GridDefinition, parameter: GribParameter): RadarGrid {
+  const size = geometry.ni * geometry.nj;
+
+  let gridValues = values;
+  if (values.length !== size) {
+    console.warn(`⚠️  Field has ${values.length} values for a ${geometry.ni}x${geometry.nj} grid`);
+    gridValues = new Float32Array(size).fill(NaN);
+    gridValues.set(values.subarray(0, size));
+  }
+
+  if (parameter.missingValues.length > 0) {
+    for (let i = 0; i < gridValues.length; i++) {
+      if (isMissingValue(parameter, gridValues[i])) gridValues[i] = NaN;
+    }
+  }
+
+  return { width: geometry.ni, height: geometry.nj, values: gridValues, geometry, parameter };
+}
+
+/**
+ * Rasterise scattered points onto a grid, keeping the largest value per cell.
+ */
+export function pointsToGrid(points: RadarDataPoint[], geometry: GridDefinition, parameter: GribParameter): RadarGrid {
+  const values = new Float32Array(geometry.ni * geometry.nj).fill(NaN);
+  const grid: RadarGrid = { width: geometry.ni, height: geometry.nj, values, geometry, parameter };
+
+  for (const point of points) {
+    const cell = gridCellAt(grid, point.lat, point.lng);
+    if (!cell) continue;
+    const index = cell.j * grid.width + cell.i;
+    if (Number.isNaN(values[index]) || point.value > values[index]) {
+      values[index] = point.value;
+    }
+  }
+
+  return grid;
+}
+
+/**
+ * Nearest cell to a location, or null when it falls outside the grid.
+ */
+export function gridCellAt(grid: RadarGrid, lat: number, lng: number): { i: number; j: number } | null {
+  if (!grid.geometry.projection) return null;
+
+  const cell = grid.geometry.projection.latLonToCell(lat, lng);
+  const i = Math.round(cell.i);
+  const j = Math.round(cell.j);
+  if (i < 0 || j < 0 || i >= grid.width || j >= grid.height) return null;
+  return { i, j };
+}
+
+/**
+ * Value at the nearest cell to a location; NaN outside the grid or where missing.
+ */
+export function gridValueAt(grid: RadarGrid, lat: number, lng: number): number {
+  const cell = gridCellAt(grid, lat, lng);
+  return cell ? grid.values[cell.j * grid.width + cell.i] : NaN;
+}
+
+/**
+ * The smallest block of cells covering a lat/lon box. On projected grids the
+ * box isn't a rectangle in grid space, so some cells outside it come along.
+ */
+export function cropGrid(grid: RadarGrid, bounds: GridBounds): RadarGrid {
+  const window = cellWindow(grid, bounds);
+  return window ? reduceWindow(grid, window, 1, 'nearest') : emptyGrid(grid.geometry, grid.parameter);
+}
+
+/**
+ * Merge factor × factor blocks of cells into one.
+ */
+export function downsampleGrid(grid: RadarGrid, factor: number, reducer: GridReducer = 'max'): RadarGrid {
+  const window = fullWindow(grid);
+  return window ? reduceWindow(grid, window, Math.max(1, Math.floor(factor)), reducer) : grid;
+}
+
+/**
+ * Crop and downsample a grid according to the decode options.
+ */
+export function resampleGrid(grid: RadarGrid, options: GridResampleOptions): RadarGrid {
+  const { window, stride } = planResample(grid, options);
+  if (!window) return options.bounds ? emptyGrid(grid.geometry, grid.parameter) : grid;
+  if (!options.bounds && stride === 1) return grid;
+  return reduceWindow(grid, window, stride, stride > 1 ? options.reducer ?? 'max' : 'nearest');
+}
+
+/**
+ * Streaming counterpart of createRadarGrid and resampleGrid: values go
+ * straight into the cropped, downsampled grid as they are unpacked, so the
+ * field is never held at full size. The result is the same as resampling
+ * the whole field.
+ */
+export function createGridResampler(geometry: GridDefinition, parameter: GribParameter, options: GridResampleOptions): GridResampler {
+  const size = geometry.ni * geometry.nj;
+  const { window, stride } = planResample({ width: geometry.ni, height: geometry.nj, geometry }, options);
+  if (!window) {
+    return { store: () => undefined, finish: () => emptyGrid(geometry, parameter) };
+  }
+
+  const reducer = stride > 1 ? options.reducer ?? 'max' : 'nearest';
+  const windowWidth = window.i1 - window.i0 + 1;
+  const windowHeight = window.j1 - window.j0 + 1;
+  const width = Math.ceil(windowWidth / stride);
+  const height = Math.ceil(windowHeight / stride);
+  const values = new Float32Array(width * height).fill(NaN);
+  const sums = reducer === 'mean' ? new Float64Array(width * height) : null;
+  const counts = reducer === 'mean' ? new Uint32Array(width * height) : null;
+  // Output column and row offset of every source column and row, -1 for those left out
+  const columns = blockOffsets(geometry.ni, window.i0, window.i1, stride, reducer === 'nearest', 1);
+  const rows = blockOffsets(geometry.nj, window.j0, window.j1, stride, reducer === 'nearest', width);
+
+  return {
+    store(point, raw) {
+      if (point >= size) return;
+      const j = Math.floor(point / geometry.ni);
+      const column = columns[point - j * geometry.ni];
+      const row = rows[j];
+      if (column < 0 || row < 0) return;
+
+      // Rounded as the Float32Array of a full field would hold it
+      const value = Math.fround(raw);
+      if (isMissingValue(parameter, value)) return;
+      const cell = row + column;
+      if (sums && counts) {
+        sums[cell] += value;
+        counts[cell]++;
+      } else if (reducer === 'nearest' || Number.isNaN(values[cell]) || value > values[cell]) {
+        values[cell] = value;
+      }
+    },
+    finish() {
+      if (sums && counts) {
+        for (let cell = 0; cell < values.length; cell++) {
+          if (counts[cell] > 0) values[cell] = sums[cell] / counts[cell];
+        }
+      }
+      if (!options.bounds && stride === 1) return { width, height, values, geometry, parameter };
+      const cropped = offsetGridDefinition(geometry, window.i0, window.j0, windowWidth, windowHeight);
+      return {
+        width,
+        height,
+        values,
+        geometry: stride > 1 ? scaleGridDefinition(cropped, stride) : cropped,
+        parameter,
+      };
+    },
+  };
+}
+
+/**
+ * Thin the grid (or the part inside `bounds`) to at most about `maxPoints`
+ * points, merging blocks of cells with the reducer.
+ */
+export function gridToPoints(grid: RadarGrid, options: GridPointOptions = {}): RadarDataPoint[] {
+  const { maxPoints = DEFAULT_MAX_POINTS, valueRange, bounds, reducer = 'max' } = options;
+  const window = bounds ? cellWindow(grid, bounds) : fullWindow(grid);
+  if (!grid.geometry.projection || !window) return [];
+
+  const inRange = (value: number) =>
+    !Number.isNaN(value) && (!valueRange || (value >= valueRange.min && value <= valueRange.max));
+
+  // Start from how many cells actually hold data, not the window size, and
+  // widen the blocks until few enough of them have a value
+  let available = 0;
+  for (let j = window.j0; j <= window.j1; j++) {
+    const row = j * grid.width;
+    for (let i = window.i0; i <= window.i1; i++) {
+      if (inRange(grid.values[row + i])) available++;
+    }
+  }
+
+  let stride = Math.max(1, Math.ceil(Math.sqrt(available / maxPoints)));
+  let reduced = reduceWindow(grid, window, stride, reducer, valueRange);
+  let count = countValues(reduced);
+  while (count > maxPoints) {
+    stride = Math.ceil(stride * Math.max(1.1, Math.sqrt(count / maxPoints)));
+    reduced = reduceWindow(grid, window, stride, reducer, valueRange);
+    count = countValues(reduced);
+  }
+
+  const projection = reduced.geometry.projection;
+  if (!projection) return [];
+
+  const points: RadarDataPoint[] = [];
+  for (let j = 0; j < reduced.height; j++) {
+    for (let i = 0; i < reduced.width; i++) {
+      const value = reduced.values[j * reduced.width + i];
+      if (Number.isNaN(value)) continue;
+
+      const { lat, lng } = projection.cellToLatLon(i, j);
+      points.push({ lat, lng, value });
+    }
+  }
+
+  return points;
+}
+
+export function gridStatistics(grid: RadarGrid, valueRange?: ValueRange): GridStatistics {
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  let count = 0;
+
+  for (let i = 0; i < grid.values.length; i++) {
+    const value = grid.values[i];
+    if (Number.isNaN(value)) continue;
+    if (valueRange && (value < valueRange.min || value > valueRange.max)) continue;
+
+    if (value < min) min = value;
+    if (value > max) max = value;
+    sum += value;
+    count++;
+  }
+
+  return count > 0 ? { min, max, mean: sum / count, count } : { min: 0, max: 0, mean: 0, count: 0 };
+}
+
+function fullWindow(grid: GridShape): CellWindow | null {
+  if (grid.width === 0 || grid.height === 0) return null;
+  return { i0: 0, i1: grid.width - 1, j0: 0, j1: grid.height - 1 };
+}
+
+/**
+ * Range of columns and rows covering a lat/lon box, found by mapping points
+ * along its edges into grid space. Null when the box misses the grid.
+ */
+function cellWindow(grid: GridShape, bounds: GridBounds): CellWindow | null {
+  const projection = grid.geometry.projection;
+  if (!projection || grid.width === 0 || grid.height === 0) return null;
+
+  let iMin = Infinity;
+  let iMax = -Infinity;
+  let jMin = Infinity;
+  let jMax = -Infinity;
+  const include = (lat: number, lng: number) => {
+    const { i, j } = projection.latLonToCell(lat, lng);
+    if (!Number.isFinite(i) || !Number.isFinite(j)) return;
+    iMin = Math.min(iMin, i);
+    iMax = Math.max(iMax, i);
+    jMin = Math.min(jMin, j);
+    jMax = Math.max(jMax, j);
+  };
+
+  const steps = 20;
+  const { minLat, maxLat, minLon, maxLon } = bounds;
+  for (let step = 0; step <= steps; step++) {
+    const lat = minLat + ((maxLat - minLat) * step) / steps;
+    const lng = minLon + ((maxLon - minLon) * step) / steps;
+    include(lat, minLon);
+    include(lat, maxLon);
+    include(minLat, lng);
+    include(maxLat, lng);
+  }
+
+  const window = {
+    i0: Math.max(0, Math.floor(iMin)),
+    i1: Math.min(grid.width - 1, Math.ceil(iMax)),
+    j0: Math.max(0, Math.floor(jMin)),
+    j1: Math.min(grid.height - 1, Math.ceil(jMax)),
+  };
+  return window.i0 <= window.i1 && window.j0 <= window.j1 ? window : null;
+}
+
+/**
+ * What the decode options keep of a grid: the window inside the bounds, and
+ * the stride that brings it down to the requested resolution and size.
+ */
+function planResample(grid: GridShape, options: GridResampleOptions): ResamplePlan {
+  const { bounds, maxCells } = options;
+  const window = bounds ? cellWindow(grid, bounds) : fullWindow(grid);
+  if (!window) return { window: null, stride: 1 };
+  const width = window.i1 - window.i0 + 1;
+  const height = window.j1 - window.j0 + 1;
+
+  let stride = 1;
+  if (options.stride) {
+    stride = Math.max(1, Math.floor(options.stride));
+  } else if (options.resolution) {
+    const native = gridResolutionDegrees(grid.geometry);
+    stride = native > 0 ? Math.max(1, Math.round(options.resolution / native)) : 1;
+  }
+
+  if (maxCells && maxCells > 0) {
+    stride = Math.max(stride, Math.floor(Math.sqrt((width * height) / maxCells)));
+    while (Math.ceil(width / stride) * Math.ceil(height / stride) > maxCells) {
+      stride++;
+    }
+  }
+
+  return { window, stride };
+}
+
+/**
+ * For each of `length` source columns (or rows), the block it falls in times
+ * `scale`, or -1 outside first..last. With `centreOnly` only the cell that
+ * reduceWindow's nearest reducer would pick from each block is mapped.
+ */
+function blockOffsets(length: number, first: number, last: number, factor: number, centreOnly: boolean, scale: number): Int32Array {
+  const offsets = new Int32Array(length).fill(-1);
+  const centre = Math.floor((factor - 1) / 2);
+  for (let start = first, block = 0; start <= last; start += factor, block++) {
+    const end = Math.min(last, start + factor - 1);
+    if (centreOnly) {
+      offsets[Math.min(end, start + centre)] = block * scale;
+    } else {
+      offsets.fill(block * scale, start, end + 1);
+    }
+  }
+  return offsets;
+}
+
+function emptyGrid(geometry: GridDefinition, parameter: GribParameter): RadarGrid {
+  return { width: 0, height: 0, values: new Float32Array(0), geometry: { ...geometry, ni: 0, nj: 0 }, parameter };
+}
+
+function countValues(grid: RadarGrid): number {
+  let count = 0;
+  for (let i = 0; i < grid.values.length; i++) {
+    if (!Number.isNaN(grid.values[i])) count++;
+  }
+  return count;
+}
+
+/**
+ * Copy a window of the grid, merging factor × factor blocks with the reducer.
+ * Values outside `valueRange` are ignored, so filtering happens before pooling.
+ */
+function reduceWindow(
+  grid: RadarGrid,
+  window: CellWindow,
+  factor: number,
+  reducer: GridReducer,
+  valueRange?: ValueRange
+): RadarGrid {
+  const windowWidth = window.i1 - window.i0 + 1;
+  const windowHeight = window.j1 - window.j0 + 1;
+  const width = Math.ceil(windowWidth / factor);
+  const height = Math.ceil(windowHeight / factor);
+  const values = new Float32Array(width * height);
+  const centre = Math.floor((factor - 1) / 2);
+  const accept = (value: number) =>
+    !Number.isNaN(value) && (!valueRange || (value >= valueRange.min && value <= valueRange.max));
+
+  for (let bj = 0; bj < height; bj++) {
+    const j0 = window.j0 + bj * factor;
+    const j1 = Math.min(window.j1, j0 + factor - 1);
+
+    for (let bi = 0; bi < width; bi++) {
+      const i0 = window.i0 + bi * factor;
+      const i1 = Math.min(window.i1, i0 + factor - 1);
+
+      let result = NaN;
+      if (reducer === 'nearest') {
+        const value = grid.values[Math.min(j1, j0 + centre) * grid.width + Math.min(i1, i0 + centre)];
+        result = accept(value) ? value : NaN;
+      } else {
+        let sum = 0;
+        let count = 0;
+        let max = -Infinity;
+        for (let j = j0; j <= j1; j++) {
+          const row = j * grid.width;
+          for (let i = i0; i <= i1; i++) {
+            const value = grid.values[row + i];
+            if (!accept(value)) continue;
+            sum += value;
+            count++;
+            if (value > max) max = value;
+          }
+        }
+        if (count > 0) result = reducer === 'max' ? max : sum / count;
+      }
+      values[bj * width + bi] = result;
+    }
+  }
+
+  const cropped = offsetGridDefinition(grid.geometry, window.i0, window.j0, windowWidth, windowHeight);
+  return {
+    width,
+    height,
+    values,
+    geometry: factor > 1 ? scaleGridDefinition(cropped, factor) : cropped,
+    parameter: grid.parameter,
+  };
+}
@@ -0,0 +1,172 @@
+/**
+ * Compact binary form of a RadarGrid for sending decoded fields over HTTP.
+ *
+ * Layout, little-endian:
+ *   0   "RGRD"
+ *   4   u8  format version (1)
+ *   5   u8  value type: 1 = uint8, 2 = int16
+ *   6   u16 reserved
+ *   8   u32 length H of the JSON header
+ *   12  H bytes of UTF-8 JSON (CompactGridHeader), padded with spaces to a multiple of 4
+ *   ..  width × height quantized values in storage order
+ *
+ * A value is `offset + q * scale`; the largest uint8 (255) and the smallest
+ * int16 (-32768) mark missing cells.
+ */
+
+import { GribParameter } from './gribParameters';
+import { GridBounds, gridBounds, GridDefinition, restoreGridDefinition } from './gribProjection';
+import { gridStatistics, RadarGrid } from './radarGrid';
+
+export type GridValueType = 'uint8' | 'int16';
+
+// The geometry without its projection closure and with Section 3 as base64, so it survives JSON
+export type SerializedGridDefinition = Omit<GridDefinition, 'projection' | 'source'> & {
+  projection: null;
+  source: Omit<GridDefinition['source'], 'base'> & {
+    base: Exclude<GridDefinition['source']['base'], { kind: 'section' }> | { kind: 'section'; bytes: string };
+  };
+};
+
+// What a grid holds and where, shared by the binary header and the JSON form
+export interface RadarGridDescription {
+  width: number;
+  height: number;
+  parameter: GribParameter;
+  referenceTime: string;
+  validTime: string;
+  bounds: GridBounds;
+  projection: string | null;
+  geometry: SerializedGridDefinition;
+}
+
+export interface CompactGridHeader extends RadarGridDescription {
+  valueType: GridValueType;
+  scale: number;
+  offset: number;
+}
+
+export interface DecodedCompactGrid {
+  grid: RadarGrid;
+  referenceTime: Date;
+  validTime: Date;
+}
+
+const MAGIC = 'RGRD';
+const FORMAT_VERSION = 1;
+const PREAMBLE_LENGTH = 12;
+
+const VALUE_TYPES: Record<GridValueType, { code: number; min: number; max: number; missing: number }> = {
+  uint8: { code: 1, min: 0, max: 254, missing: 255 },
+  int16: { code: 2, min: -32767, max: 32767, missing: -32768 },
+};
+
+export function describeRadarGrid(grid: RadarGrid, times: { referenceTime: Date; validTime: Date }): RadarGridDescription {
+  return {
+    width: grid.width,
+    height: grid.height,
+    parameter: grid.parameter,
+    referenceTime: times.referenceTime.toISOString(),
+    validTime: times.validTime.toISOString(),
+    bounds: gridBounds(grid.geometry),
+    projection: grid.geometry.projection?.name ?? null,
+    geometry: serializeGridDefinition(grid.geometry),
+  };
+}
+
+export function encodeCompactGrid(
+  grid: RadarGrid,
+  times: { referenceTime: Date; validTime: Date },
+  valueType: GridValueType = 'uint8'
+): Uint8Array<ArrayBuffer> {
+  const { min, max, count } = gridStatistics(grid);
+  const range = VALUE_TYPES[valueType];
+  const scale = count > 0 && max > min ? (max - min) / (range.max - range.min) : 1;
+  const header: CompactGridHeader = { ...describeRadarGrid(grid, times), valueType, scale, offset: min - range.min * scale };
+
+  const json = new TextEncoder().encode(JSON.stringify(header));
+  const headerLength = Math.ceil(json.length / 4) * 4;
+  const bytesPerValue = valueType === 'uint8' ? 1 : 2;
+
+  const output = new Uint8Array(PREAMBLE_LENGTH + headerLength + grid.values.length * bytesPerValue);
+  const view = new DataView(output.buffer);
+  output.set(new TextEncoder().encode(MAGIC), 0);
+  view.setUint8(4, FORMAT_VERSION);
+  view.setUint8(5, range.code);
+  view.setUint32(8, headerLength, true);
+  output.fill(0x20, PREAMBLE_LENGTH, PREAMBLE_LENGTH + headerLength);
+  output.set(json, PREAMBLE_LENGTH);
+
+  const start = PREAMBLE_LENGTH + headerLength;
+  for (let i = 0; i < grid.values.length; i++) {
+    const value = grid.values[i];
+    const q = Number.isNaN(value)
+      ? range.missing
+      : Math.min(range.max, Math.max(range.min, Math.round((value - header.offset) / header.scale)));
+    if (bytesPerValue === 1) {
+      output[start + i] = q;
+    } else {
+      view.setInt16(start + i * 2, q, true);
+    }
+  }
+
+  return output;
+}
+
+/**
+ * Read a grid written by encodeCompactGrid, projection included.
+ */
+export function decodeCompactGrid(buffer: ArrayBuffer | Uint8Array): DecodedCompactGrid {
+  const bytes = buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < PREAMBLE_LENGTH || new TextDecoder().decode(bytes.subarray(0, 4)) !== MAGIC) {
+    throw new Error('Not a compact radar grid');
+  }
+  if (view.getUint8(4) !== FORMAT_VERSION) {
+    throw new Error(`Unsupported compact grid version ${view.getUint8(4)}`);
+  }
+
+  const headerLength = view.getUint32(8, true);
+  const header: CompactGridHeader = JSON.parse(new TextDecoder().decode(bytes.subarray(PREAMBLE_LENGTH, PREAMBLE_LENGTH + headerLength)));
+  const range = VALUE_TYPES[header.valueType];
+  const bytesPerValue = header.valueType === 'uint8' ? 1 : 2;
+  const start = PREAMBLE_LENGTH + headerLength;
+  const size = header.width * header.height;
+  if (bytes.length < start + size * bytesPerValue) {
+    throw new Error(`Compact grid holds ${bytes.length - start} value bytes, expected ${size * bytesPerValue}`);
+  }
+
+  const values = new Float32Array(size);
+  for (let i = 0; i < size; i++) {
+    const q = bytesPerValue === 1 ? bytes[start + i] : view.getInt16(start + i * 2, true);
+    values[i] = q === range.missing ? NaN : header.offset + q * header.scale;
+  }
+
+  return {
+    grid: {
+      width: header.width,
+      height: header.height,
+      values,
+      geometry: deserializeGridDefinition(header.geometry),
+      parameter: header.parameter,
+    },
+    referenceTime: new Date(header.referenceTime),
+    validTime: new Date(header.validTime),
+  };
+}
+
+export function serializeGridDefinition(grid: GridDefinition): SerializedGridDefinition {
+  const { source, ...fields } = grid;
+  const base = source.base.kind === 'section'
+    ? { kind: 'section' as const, bytes: btoa(String.fromCharCode(...source.base.bytes)) }
+    : source.base;
+  return { ...fields, projection: null, source: { ...source, base } };
+}
+
+export function deserializeGridDefinition(serialized: SerializedGridDefinition): GridDefinition {
+  const { source, ...fields } = serialized;
+  const base = source.base.kind === 'section'
+    ? { kind: 'section' as const, bytes: Uint8Array.from(atob(source.base.bytes), char => char.charCodeAt(0)) }
+    : source.base;
+  return restoreGridDefinition({ ...fields, projection: null, source: { ...source, base } });
+}
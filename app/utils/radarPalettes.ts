@@ -0,0 +1,202 @@
+/**
+ * Colour scales for drawing radar products on the map.
+ *
+ * A continuous palette colours a value with its highest stop at or below it;
+ * values under the first stop aren't drawn. A categorical palette colours
+ * only the listed codes, e.g. the MRMS precipitation type flag.
+ */
+
+import { GribParameter } from './gribParameters';
+
+export interface PaletteStop {
+  value: number;
+  color: string;
+  label?: string; // categorical palettes name each code
+}
+
+export interface RadarPalette {
+  name: RadarPaletteName | 'range';
+  categorical: boolean;
+  stops: PaletteStop[];
+  range: { min: number; max: number }; // what marker sizes scale across
+  legend: { color: string; label: string }[];
+}
+
+export type RadarPaletteName =
+  | 'reflectivity'
+  | 'precipRate'
+  | 'precipFlag'
+  | 'hail'
+  | 'echoTop'
+  | 'vil'
+  | 'rotation'
+  | 'accumulation';
+
+// Colours from light to intense, shared by every parameter without a palette of its own
+const SCALE_COLORS = ['#0099CC', '#00CC99', '#00FF00', '#99FF00', '#FFFF00', '#FFCC00', '#FF9900', '#FF6600', '#FF0000', '#CC0099', '#9900CC'];
+
+const format = (value: number) => Number(value.toPrecision(3)).toLocaleString();
+
+// Stepped scale whose legend lists every stop as "value+"
+const continuous = (name: RadarPaletteName, stops: [number, string][]): RadarPalette => ({
+  name,
+  categorical: false,
+  stops: stops.map(([value, color]) => ({ value, color })),
+  range: { min: stops[0][0], max: stops[stops.length - 1][0] },
+  legend: stops.map(([value, color]) => ({ color, label: `${format(value)}+` })),
+});
+
+const categorical = (name: RadarPaletteName, stops: [number, string, string][]): RadarPalette => ({
+  name,
+  categorical: true,
+  stops: stops.map(([value, color, label]) => ({ value, color, label })),
+  range: { min: stops[0][0], max: stops[stops.length - 1][0] },
+  legend: stops.map(([, color, label]) => ({ color, label })),
+});
+
+export const RADAR_PALETTES: Record<RadarPaletteName, RadarPalette> = {
+  // Values below -10 dBZ are clutter and left off the map
+  reflectivity: {
+    ...continuous('reflectivity', [
+      [-10, '#9C9C9C'],
+      [0, '#0099CC'],
+      [5, '#00CC99'],
+      [10, '#00FF00'],
+      [15, '#99FF00'],
+      [20, '#FFFF00'],
+      [25, '#FFCC00'],
+      [30, '#FF9900'],
+      [35, '#FF6600'],
+      [40, '#FF0000'],
+      [45, '#CC0099'],
+      [50, '#9900CC'],
+      [55, '#FFFFFF'],
+    ]),
+    legend: [
+      { color: '#00FF00', label: 'Light (5-15)' },
+      { color: '#FFFF00', label: 'Moderate (15-25)' },
+      { color: '#FF6600', label: 'Heavy (25-35)' },
+      { color: '#FF0000', label: 'Intense (35-45)' },
+      { color: '#9900CC', label: 'Extreme (45+)' },
+    ],
+  },
+  precipRate: continuous('precipRate', [
+    [0.1, '#A0E6FF'],
+    [1, '#00C8FF'],
+    [2.5, '#00FF00'],
+    [5, '#FFFF00'],
+    [10, '#FF9900'],
+    [25, '#FF0000'],
+    [50, '#CC0099'],
+    [100, '#FFFFFF'],
+  ]),
+  // MRMS PrecipFlag codes; 0 (no precipitation) is left off the map
+  precipFlag: categorical('precipFlag', [
+    [1, '#00CC00', 'Warm stratiform rain'],
+    [3, '#66CCFF', 'Snow'],
+    [6, '#FF0000', 'Convective rain'],
+    [7, '#FF00FF', 'Rain mixed with hail'],
+    [10, '#008000', 'Cool stratiform rain'],
+    [91, '#FFFF00', 'Tropical / stratiform mix'],
+    [96, '#FF9900', 'Tropical / convective mix'],
+  ]),
+  hail: continuous('hail', [
+    [5, '#00FF00'],
+    [10, '#99FF00'],
+    [20, '#FFFF00'],
+    [30, '#FFCC00'],
+    [40, '#FF6600'],
+    [50, '#FF0000'],
+    [65, '#CC0099'],
+    [75, '#9900CC'],
+  ]),
+  echoTop: continuous('echoTop', [
+    [2, '#0099CC'],
+    [4, '#00CC99'],
+    [6, '#00FF00'],
+    [8, '#FFFF00'],
+    [10, '#FF9900'],
+    [12, '#FF0000'],
+    [15, '#CC0099'],
+    [18, '#FFFFFF'],
+  ]),
+  vil: continuous('vil', [
+    [1, '#0099CC'],
+    [5, '#00FF00'],
+    [10, '#99FF00'],
+    [15, '#FFFF00'],
+    [20, '#FFCC00'],
+    [30, '#FF6600'],
+    [40, '#FF0000'],
+    [50, '#CC0099'],
+    [65, '#FFFFFF'],
+  ]),
+  rotation: continuous('rotation', [
+    [2, '#808080'],
+    [4, '#00CC99'],
+    [6, '#FFFF00'],
+    [8, '#FF9900'],
+    [10, '#FF0000'],
+    [12, '#CC0099'],
+    [15, '#FFFFFF'],
+  ]),
+  accumulation: continuous('accumulation', [
+    [0.25, '#A0E6FF'],
+    [2.5, '#00C8FF'],
+    [6, '#00FF00'],
+    [12, '#99FF00'],
+    [25, '#FFFF00'],
+    [50, '#FF9900'],
+    [75, '#FF0000'],
+    [100, '#CC0099'],
+    [150, '#9900CC'],
+    [250, '#FFFFFF'],
+  ]),
+};
+
+/**
+ * The palette to use when nothing more specific is known: reflectivity
+ * colours for dBZ, otherwise eleven steps across the parameter's range.
+ */
+export function defaultPalette(parameter: GribParameter): RadarPalette {
+  if (parameter.units === 'dBZ' || parameter.units === 'dB') {
+    return RADAR_PALETTES.reflectivity;
+  }
+
+  const { min, max } = parameter.range;
+  // Each colour covers the values nearest its share of the range; the legend shows five equal bands
+  const last = SCALE_COLORS.length - 1;
+  const band = (max - min) / 5;
+  return {
+    name: 'range',
+    categorical: false,
+    stops: SCALE_COLORS.map((color, index) => ({ value: index === 0 ? -Infinity : min + ((index - 0.5) / last) * (max - min), color })),
+    range: { min, max },
+    legend: [0, 1, 2, 3, 4].map(index => ({
+      color: SCALE_COLORS[Math.round(((index + 0.5) / 5) * last)],
+      label: index === 4 ? `${format(min + index * band)}+` : `${format(min + index * band)} - ${format(min + (index + 1) * band)}`,
+    })),
+  };
+}
+
+/**
+ * Colour for a value, or null when the palette leaves it off the map.
+ */
+export function paletteColor(palette: RadarPalette, value: number): string | null {
+  if (palette.categorical) {
+    return palette.stops.find(stop => Math.abs(stop.value - value) < 0.5)?.color ?? null;
+  }
+
+  let color: string | null = null;
+  for (const stop of palette.stops) {
+    if (value < stop.value) break;
+    color = stop.color;
+  }
+  return color;
+}
+
+// Position of a value within the palette's range, clamped to 0-1
+export function paletteFraction(palette: RadarPalette, value: number): number {
+  const { min, max } = palette.range;
+  return max > min ? Math.max(0, Math.min(1, (value - min) / (max - min))) : 0.5;
+}
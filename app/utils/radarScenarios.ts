@@ -0,0 +1,293 @@
+/**
+ * Seeded synthetic radar scenarios.
+ *
+ * Each scenario paints reflectivity onto a 0.05° grid over the continental
+ * US from a handful of storm features. A seeded generator places the
+ * features and hashed noise gives them texture, so the same scenario, seed
+ * and frame always produce the same values. Later frames move the features
+ * along their storm motion.
+ */
+
+import { lookupParameter } from './gribParameters';
+import { createLatLonGridDefinition, GridDefinition } from './gribProjection';
+import { RadarGrid } from './radarGrid';
+
+export type RadarScenarioName = 'squall-line' | 'supercells' | 'tropical-cyclone' | 'stratiform' | 'clear-air';
+
+export const RADAR_SCENARIOS: Record<RadarScenarioName, { label: string; description: string }> = {
+  'squall-line': { label: 'Squall line', description: 'Bowing line of storms with trailing stratiform rain' },
+  supercells: { label: 'Isolated supercells', description: 'Discrete rotating storms with hook echoes and forward-flank rain' },
+  'tropical-cyclone': { label: 'Tropical cyclone', description: 'Landfalling hurricane with an eyewall and rotating spiral bands' },
+  stratiform: { label: 'Stratiform rain shield', description: 'Broad, steady light to moderate rain' },
+  'clear-air': { label: 'Clear air', description: 'Weak returns and fine-line boundaries, no precipitation' },
+};
+
+export interface RadarScenarioOptions {
+  scenario: RadarScenarioName;
+  seed?: number; // defaults to 1
+  frame?: number; // 0 for the first frame
+}
+
+export const SCENARIO_FRAME_MINUTES = 10;
+
+// Fixed so every run of a scenario reports the same times
+const SCENARIO_START_TIME = Date.UTC(2024, 4, 20, 21, 0);
+
+// A storm feature: the box it can touch and its reflectivity at a point, -Infinity for none
+interface Feature {
+  minLat: number;
+  maxLat: number;
+  minLon: number;
+  maxLon: number;
+  value(lat: number, lon: number): number;
+}
+
+type ScenarioBuilder = (random: () => number, noise: NoiseField, frame: number) => Feature[];
+
+type NoiseField = (x: number, y: number) => number;
+
+/**
+ * Mulberry32: small, fast and good enough to place storms.
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function scenarioTime(frame: number): Date {
+  return new Date(SCENARIO_START_TIME + frame * SCENARIO_FRAME_MINUTES * 60_000);
+}
+
+export function createScenarioGeometry(): GridDefinition {
+  return createLatLonGridDefinition(1401, 701, 55, -130, 20, -60, 0);
+}
+
+/**
+ * Reflectivity for one frame of a scenario. Cells without echo are NaN.
+ */
+export function generateScenarioGrid({ scenario, seed = 1, frame = 0 }: RadarScenarioOptions): RadarGrid {
+  const geometry = createScenarioGeometry();
+  const values = new Float32Array(geometry.ni * geometry.nj).fill(NaN);
+  const minimum = scenario === 'clear-air' ? -10 : 5;
+
+  const features = SCENARIO_BUILDERS[scenario](createSeededRandom(seed), createNoiseField(seed), frame);
+  for (const feature of features) {
+    paintFeature(values, geometry, feature, minimum);
+  }
+
+  return { width: geometry.ni, height: geometry.nj, values, geometry, parameter: lookupParameter(209, 0, 0) };
+}
+
+const between = (random: () => number, min: number, max: number) => min + random() * (max - min);
+
+const SCENARIO_BUILDERS: Record<RadarScenarioName, ScenarioBuilder> = {
+  'squall-line': (random, noise, frame) => {
+    const length = between(random, 8, 12);
+    const heading = between(random, 15, 35) * (Math.PI / 180); // line axis, clockwise from north
+    const lat0 = between(random, 33, 39) - 0.02 * frame;
+    const lon0 = between(random, -99, -93) + 0.15 * frame;
+    const peak = between(random, 52, 60);
+    const bow = 0.3 + 0.08 * frame; // the middle surges ahead as the line matures
+    const extent = length / 2 + 2.5;
+
+    return [{
+      minLat: lat0 - extent,
+      maxLat: lat0 + extent,
+      minLon: lon0 - extent,
+      maxLon: lon0 + extent,
+      value(lat, lon) {
+        const y = lat - lat0;
+        const x = lon - lon0;
+        const along = y * Math.cos(heading) + x * Math.sin(heading);
+        const across = x * Math.cos(heading) - y * Math.sin(heading) - bow * Math.exp(-((along / (length / 4)) ** 2));
+        const taper = Math.max(0, 1 - Math.max(0, Math.abs(along) - length / 2 + 1));
+        if (taper <= 0 || across > 0.4 || across < -2.4) return -Infinity;
+
+        const texture = noise(along * 3 + frame * 0.2, across * 3);
+        const convective = (peak - 8 + 16 * texture) * Math.exp(-((across / 0.12) ** 2));
+        const stratiform = across < -0.3 ? (24 + 10 * noise(along * 1.2, across * 1.2 - 50)) * Math.min(1, (across + 2.4) / 0.6) : -Infinity;
+        return Math.max(convective, stratiform) * taper;
+      },
+    }];
+  },
+
+  supercells: (random, noise, frame) => {
+    const count = 3 + Math.floor(random() * 3);
+    const features: Feature[] = [];
+    const motion = between(random, 35, 60) * (Math.PI / 180); // heading, clockwise from north
+
+    for (let k = 0; k < count; k++) {
+      const lat0 = between(random, 32, 40) + 0.08 * frame * Math.cos(motion);
+      const lon0 = between(random, -101, -95) + 0.1 * frame * Math.sin(motion);
+      const peak = between(random, 58, 68) + 3 * Math.sin(frame * 0.8 + k);
+      const phase = k * 10;
+
+      features.push({
+        minLat: lat0 - 1.5,
+        maxLat: lat0 + 1.5,
+        minLon: lon0 - 1.5,
+        maxLon: lon0 + 1.5,
+        value(lat, lon) {
+          // u points along the storm motion, v to its right
+          const y = lat - lat0;
+          const x = lon - lon0;
+          const u = y * Math.cos(motion) + x * Math.sin(motion);
+          const v = x * Math.cos(motion) - y * Math.sin(motion);
+          const texture = noise(x * 6 + phase, y * 6);
+
+          const core = peak * Math.exp(-(u * u + v * v) / 0.02);
+          const forwardFlank = u > 0 ? (38 + 8 * texture) * Math.exp(-(((u - 0.45) / 0.45) ** 2) - ((v + 0.05) / 0.22) ** 2) : -Infinity;
+          // The hook wraps around the rear right of the core
+          const hookRadius = Math.hypot(u + 0.12, v - 0.1);
+          const hook = u < 0 && v > -0.05 ? 48 * Math.exp(-(((hookRadius - 0.12) / 0.035) ** 2)) : -Infinity;
+          return Math.max(core, forwardFlank, hook) + 4 * (texture - 0.5);
+        },
+      });
+    }
+    return features;
+  },
+
+  'tropical-cyclone': (random, noise, frame) => {
+    const lat0 = between(random, 25.5, 28.5) + 0.1 * frame;
+    const lon0 = between(random, -93, -86) - 0.04 * frame;
+    const eye = between(random, 0.2, 0.3);
+    const spin = 0.2 * frame; // bands turn counterclockwise
+
+    return [{
+      minLat: lat0 - 5,
+      maxLat: lat0 + 5,
+      minLon: lon0 - 5.5,
+      maxLon: lon0 + 5.5,
+      value(lat, lon) {
+        const y = lat - lat0;
+        const x = (lon - lon0) * Math.cos((lat0 * Math.PI) / 180);
+        const r = Math.hypot(x, y);
+        if (r < eye || r > 5) return -Infinity;
+
+        const theta = Math.atan2(y, x);
+        const texture = noise(x * 2.5, y * 2.5);
+        const eyewall = 54 * Math.exp(-(((r - eye - 0.25) / 0.15) ** 2));
+        const band = Math.max(0, Math.cos(2 * (theta - spin + 1.8 * Math.log(r)))) ** 4;
+        const bands = (46 - 5 * r) * band;
+        const shield = 24 * Math.exp(-r / 2.5);
+        return Math.max(eyewall, bands, shield) + 10 * (texture - 0.5);
+      },
+    }];
+  },
+
+  stratiform: (random, noise, frame) => {
+    const lat0 = between(random, 37, 43) + 0.03 * frame;
+    const lon0 = between(random, -95, -84) + 0.12 * frame;
+    const a = between(random, 5, 7); // semi-axes in degrees
+    const b = between(random, 2.5, 3.5);
+    const tilt = between(random, -0.4, 0.4);
+
+    return [{
+      minLat: lat0 - a - 1,
+      maxLat: lat0 + a + 1,
+      minLon: lon0 - a - 1,
+      maxLon: lon0 + a + 1,
+      value(lat, lon) {
+        const y = lat - lat0;
+        const x = lon - lon0;
+        const along = x * Math.cos(tilt) + y * Math.sin(tilt);
+        const across = y * Math.cos(tilt) - x * Math.sin(tilt);
+        // Ragged edges come from pushing the ellipse boundary around with noise
+        const q = Math.hypot(along / a, across / b) + 0.35 * (noise(x * 0.8, y * 0.8) - 0.5);
+        if (q > 1) return -Infinity;
+        return (18 + 16 * noise(x * 2, y * 2 + 100)) * Math.min(1, (1 - q) * 4);
+      },
+    }];
+  },
+
+  'clear-air': (random, noise, frame) => {
+    const features: Feature[] = [{
+      minLat: 24,
+      maxLat: 50,
+      minLon: -125,
+      maxLon: -66,
+      value: (lat, lon) => {
+        const texture = noise(lon * 0.9 + frame * 0.05, lat * 0.9);
+        return texture > 0.55 ? -12 + 40 * (texture - 0.55) : -Infinity;
+      },
+    }];
+
+    // Outflow boundaries and fronts show up as thin lines of weak echo
+    const boundaries = 2 + Math.floor(random() * 2);
+    for (let k = 0; k < boundaries; k++) {
+      const lat0 = between(random, 30, 45);
+      const lon0 = between(random, -110, -85) + 0.05 * frame;
+      const heading = random() * Math.PI;
+      const length = between(random, 3, 6);
+      features.push({
+        minLat: lat0 - length,
+        maxLat: lat0 + length,
+        minLon: lon0 - length,
+        maxLon: lon0 + length,
+        value(lat, lon) {
+          const y = lat - lat0;
+          const x = lon - lon0;
+          const along = y * Math.cos(heading) + x * Math.sin(heading);
+          const across = x * Math.cos(heading) - y * Math.sin(heading) - 0.3 * Math.sin(along * 1.5 + k);
+          if (Math.abs(along) > length / 2) return -Infinity;
+          return 14 * Math.exp(-((across / 0.04) ** 2)) - 2;
+        },
+      });
+    }
+    return features;
+  },
+};
+
+function paintFeature(values: Float32Array, geometry: GridDefinition, feature: Feature, minimum: number): void {
+  const projection = geometry.projection!;
+  const corners = [
+    projection.latLonToCell(feature.maxLat, feature.minLon),
+    projection.latLonToCell(feature.minLat, feature.maxLon),
+  ];
+  const i0 = Math.max(0, Math.floor(Math.min(corners[0].i, corners[1].i)));
+  const i1 = Math.min(geometry.ni - 1, Math.ceil(Math.max(corners[0].i, corners[1].i)));
+  const j0 = Math.max(0, Math.floor(Math.min(corners[0].j, corners[1].j)));
+  const j1 = Math.min(geometry.nj - 1, Math.ceil(Math.max(corners[0].j, corners[1].j)));
+
+  for (let j = j0; j <= j1; j++) {
+    for (let i = i0; i <= i1; i++) {
+      const { lat, lng } = projection.cellToLatLon(i, j);
+      const value = feature.value(lat, lng);
+      if (!(value >= minimum)) continue;
+
+      const index = j * geometry.ni + i;
+      const current = values[index];
+      if (Number.isNaN(current) || value > current) values[index] = Math.round(value * 2) / 2; // 0.5 dBZ like MRMS
+    }
+  }
+}
+
+/**
+ * Smooth value noise in [0, 1) from hashed lattice points, two octaves.
+ */
+function createNoiseField(seed: number): NoiseField {
+  const lattice = (x: number, y: number) => {
+    let h = (seed ^ Math.imul(x, 0x27d4eb2d) ^ Math.imul(y, 0x165667b1)) | 0;
+    h = Math.imul(h ^ (h >>> 15), 0x85ebca6b);
+    h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+    return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+  };
+  const smooth = (x: number, y: number) => {
+    const x0 = Math.floor(x);
+    const y0 = Math.floor(y);
+    const fx = x - x0;
+    const fy = y - y0;
+    const sx = fx * fx * (3 - 2 * fx);
+    const sy = fy * fy * (3 - 2 * fy);
+    const top = lattice(x0, y0) + (lattice(x0 + 1, y0) - lattice(x0, y0)) * sx;
+    const bottom = lattice(x0, y0 + 1) + (lattice(x0 + 1, y0 + 1) - lattice(x0, y0 + 1)) * sx;
+    return top + (bottom - top) * sy;
+  };
+  return (x, y) => 0.65 * smooth(x, y) + 0.35 * smooth(x * 2.7 + 17, y * 2.7 + 31);
+}
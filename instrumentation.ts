@@ -0,0 +1,16 @@
+// Runs once when the Next.js server starts: records client addresses for the
+// rate limits (see app/lib/remoteAddress.ts) and begins the background ingest
+// when INGEST_DIR is set (see app/lib/ingest.ts)
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+
+  const { recordRemoteAddresses } = await import('./app/lib/remoteAddress');
+  recordRemoteAddresses();
+
+  const { startIngest } = await import('./app/lib/ingest');
+  try {
+    startIngest();
+  } catch (error) {
+    console.error('❌ Ingest not started:', error instanceof Error ? error.message : error);
+  }
+}
@@ -0,0 +1,11 @@
+import { NextRequest } from 'next/server';
+import { guardApiRequest } from './app/lib/apiAccess';
+
+// API keys, rate limits and allowed origins for every API route except the health check
+export function proxy(request: NextRequest) {
+  return guardApiRequest(request);
+}
+
+export const config = {
+  matcher: '/api/((?!health$).*)',
+};
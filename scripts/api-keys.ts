@@ -0,0 +1,57 @@
+// Issue, list and revoke API keys in API_KEYS_FILE:
+//   npm run api-keys -- create <name> [--per-minute N] [--burst N] [--daily N]
+//   npm run api-keys -- list
+//   npm run api-keys -- revoke <id>
+import { ApiKeyStore } from '../app/lib/apiKeys';
+import { getRadarConfig, RateLimit } from '../app/lib/config';
+
+const LIMIT_FLAGS: Record<string, keyof RateLimit> = { '--per-minute': 'perMinute', '--burst': 'burst', '--daily': 'daily' };
+
+async function main() {
+  const { keysFile, keyDefaults } = getRadarConfig().access;
+  const store = new ApiKeyStore(keysFile);
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'create': {
+      const name = args[0];
+      if (!name || name.startsWith('--')) throw new Error('create needs a name for the key');
+      const limits: Partial<RateLimit> = {};
+      for (let i = 1; i < args.length; i += 2) {
+        const field = LIMIT_FLAGS[args[i]];
+        const value = Number(args[i + 1]);
+        if (!field || !Number.isInteger(value) || value < 0) throw new Error(`Unexpected argument ${args[i]} ${args[i + 1] ?? ''}`);
+        limits[field] = value;
+      }
+      const { key, record } = await store.create(name, limits);
+      const effective = { ...keyDefaults, ...record.limits };
+      console.log(`🔑 Issued key ${record.id} for ${name} (${effective.perMinute}/min, burst ${effective.burst}, ${effective.daily || 'unlimited'}/day)`);
+      console.log(`   ${key}`);
+      console.log('   It is not shown again; keep it somewhere safe.');
+      break;
+    }
+    case 'list': {
+      const records = await store.list();
+      if (records.length === 0) console.log(`No keys in ${keysFile}`);
+      for (const record of records) {
+        const state = record.revokedAt ? `revoked ${record.revokedAt}` : 'active';
+        const limits = record.limits ? ` ${JSON.stringify(record.limits)}` : '';
+        console.log(`${record.id}  ${record.name}  created ${record.createdAt}  ${state}${limits}`);
+      }
+      break;
+    }
+    case 'revoke': {
+      if (!args[0]) throw new Error('revoke needs the id of the key');
+      if (!(await store.revoke(args[0]))) throw new Error(`No key with id ${args[0]}`);
+      console.log(`🗑️ Revoked key ${args[0]}`);
+      break;
+    }
+    default:
+      throw new Error('Use create <name> [--per-minute N] [--burst N] [--daily N], list or revoke <id>');
+  }
+}
+
+main().catch(error => {
+  console.error('❌', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,33 @@
+// Standalone ingest, for running the archive apart from the web server:
+//   INGEST_DIR=./archive npm run ingest            poll until interrupted
+//   INGEST_DIR=./archive npm run ingest -- --once  one cycle, then exit
+import { getRadarConfig } from '../app/lib/config';
+import { IngestService } from '../app/lib/ingest';
+
+async function main() {
+  const { ingest } = getRadarConfig();
+  if (!ingest) {
+    console.error('❌ INGEST_DIR is not set, nothing to ingest into');
+    process.exit(1);
+  }
+
+  const service = new IngestService(ingest);
+  if (process.argv.includes('--once')) {
+    const report = await service.runOnce();
+    process.exit(report.failed > 0 ? 1 : 0);
+  }
+
+  const shutdown = async () => {
+    console.log('🛑 Stopping ingest');
+    await service.stop();
+    process.exit(0);
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+  service.start();
+}
+
+main().catch(error => {
+  console.error('❌ Ingest failed:', error instanceof Error ? error.message : error);
+  process.exit(1);
+});
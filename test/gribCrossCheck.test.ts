@@ -0,0 +1,113 @@
+import assert from 'node:assert/strict';
+import { chmod, mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { Grib2JsonRecord } from 'grib2json';
+import { decodeWithGrib2Json } from '../app/lib/grib2json';
+import { compareGribFields } from '../app/utils/gribCrossCheck';
+import { encodeGribMessage, GribEncodeMetadata } from '../app/utils/gribEncoder';
+import { lookupParameter } from '../app/utils/gribParameters';
+import { GribField, SimpleGribProcessor } from '../app/utils/gribProcessor';
+import { createLatLonGridDefinition } from '../app/utils/gribProjection';
+import { RadarGrid } from '../app/utils/radarGrid';
+
+const REFERENCE_TIME = new Date('2026-10-19T12:00:00Z');
+const MINUTE = 60000;
+
+// Stands in for the Java tool: prints whatever records the test left beside it
+let directory = '';
+const writeRecords = (records: Grib2JsonRecord[]) => writeFile(join(directory, 'records.json'), JSON.stringify(records));
+
+function testGrid(): RadarGrid {
+  const values = new Float32Array(12 * 8);
+  for (let index = 0; index < values.length; index++) values[index] = index % 5 === 0 ? NaN : (index * 7) % 60;
+  return {
+    width: 12,
+    height: 8,
+    values,
+    geometry: createLatLonGridDefinition(12, 8, 40, 260, 36.5, 265.5, 0),
+    parameter: lookupParameter(209, 0, 0),
+  };
+}
+
+// What grib2json prints for the field, given its forecast time as a bare number the way the tool does
+function grib2JsonRecord(field: GribField, forecastTime: number, forecastTimeUnit?: number): Grib2JsonRecord {
+  const { header, metadata } = field;
+  return {
+    header: {
+      discipline: metadata.discipline,
+      center: metadata.centre,
+      subcenter: metadata.subCentre,
+      refTime: metadata.timestamp.toISOString(),
+      parameterCategory: metadata.parameterCategory,
+      parameterNumber: metadata.parameterNumber,
+      genProcessType: 0,
+      forecastTime,
+      ...(forecastTimeUnit === undefined ? {} : { forecastTimeUnit }),
+      surface1Type: metadata.levelType,
+      surface1Value: metadata.levelValue ?? Number.NaN,
+      gridDefinitionTemplate: 0,
+      numberPoints: header.nx * header.ny,
+      scanMode: 0,
+      nx: header.nx,
+      ny: header.ny,
+      lo1: header.lo1,
+      la1: header.la1,
+      lo2: header.lo2,
+      la2: header.la2,
+      dx: 0.5,
+      dy: 0.5,
+    },
+    data: Array.from(field.grid.values, value => (Number.isNaN(value) ? null : value)),
+  };
+}
+
+async function crossCheck(metadata: GribEncodeMetadata, grib2JsonUnit?: number) {
+  const file = encodeGribMessage(testGrid(), metadata);
+  const native = await SimpleGribProcessor.processGribMessages(file, { strict: true });
+  await writeRecords([grib2JsonRecord(native[0], metadata.forecastTime ?? 0, grib2JsonUnit)]);
+  const reference = await decodeWithGrib2Json(file, { strict: true });
+  return { native, reference, report: compareGribFields(reference, native) };
+}
+
+describe('cross-check against grib2json', () => {
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'grib2json-test-'));
+    const launcher = join(directory, 'grib2json');
+    await writeFile(launcher, `#!/bin/sh\ncat "${join(directory, 'records.json')}"\n`);
+    await chmod(launcher, 0o755);
+    process.env.GRIB2JSON_PATH = launcher;
+  });
+
+  after(async () => {
+    delete process.env.GRIB2JSON_PATH;
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads a forecast time in minutes, as MRMS writes it, with the unit from Section 4', async () => {
+    const { reference, report } = await crossCheck({ referenceTime: REFERENCE_TIME, forecastTimeUnit: 0, forecastTime: 5 });
+    assert.equal(reference[0].metadata.validTime.toISOString(), new Date(REFERENCE_TIME.getTime() + 5 * MINUTE).toISOString());
+    assert.deepEqual(report.fields[0].headerMismatches, []);
+    assert.equal(report.matches, true);
+  });
+
+  it('reads a forecast time in hours', async () => {
+    const { reference, report } = await crossCheck({ referenceTime: REFERENCE_TIME, forecastTimeUnit: 1, forecastTime: 3 });
+    assert.equal(reference[0].metadata.validTime.toISOString(), new Date(REFERENCE_TIME.getTime() + 180 * MINUTE).toISOString());
+    assert.equal(report.matches, true);
+  });
+
+  it('goes by the unit grib2json reports when it has one', async () => {
+    const { reference, report } = await crossCheck({ referenceTime: REFERENCE_TIME, forecastTimeUnit: 0, forecastTime: 5 }, 1);
+    assert.equal(reference[0].metadata.validTime.toISOString(), new Date(REFERENCE_TIME.getTime() + 300 * MINUTE).toISOString());
+    assert.deepEqual(report.fields[0].headerMismatches.map(mismatch => mismatch.name), ['validTime']);
+  });
+
+  it('agrees on every cell, missing ones included', async () => {
+    const { report } = await crossCheck({ referenceTime: REFERENCE_TIME });
+    assert.equal(report.fields[0].cellsDiffering, 0);
+    assert.equal(report.fields[0].missingMismatches, 0);
+    assert.equal(report.fields[0].cellsCompared, 12 * 8);
+  });
+});
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { encodeGribMessage, GribEncodeOptions } from '../app/utils/gribEncoder';
+import { lookupParameter } from '../app/utils/gribParameters';
+import { SimpleGribProcessor } from '../app/utils/gribProcessor';
+import { createLatLonGridDefinition } from '../app/utils/gribProjection';
+import { RadarGrid } from '../app/utils/radarGrid';
+
+const WIDTH = 40;
+const HEIGHT = 30;
+const REFERENCE_TIME = new Date('2026-10-19T12:00:00Z');
+const TOLERANCE = 0.05 + 1e-4; // half a step at one decimal digit, plus float32 rounding
+
+// Reflectivity-like values on a small lat/lon grid, with every 7th cell missing when asked
+function testGrid(withGaps: boolean): RadarGrid {
+  const values = new Float32Array(WIDTH * HEIGHT);
+  for (let j = 0; j < HEIGHT; j++) {
+    for (let i = 0; i < WIDTH; i++) {
+      const index = j * WIDTH + i;
+      values[index] = withGaps && index % 7 === 3 ? NaN : 5 + 60 * Math.abs(Math.sin(i * 0.31) * Math.cos(j * 0.17));
+    }
+  }
+  return {
+    width: WIDTH,
+    height: HEIGHT,
+    values,
+    geometry: createLatLonGridDefinition(WIDTH, HEIGHT, 40, 260, 37.1, 263.9, 0),
+    parameter: lookupParameter(209, 0, 0),
+  };
+}
+
+async function roundTrip(grid: RadarGrid, options: GribEncodeOptions) {
+  const message = encodeGribMessage(grid, { referenceTime: REFERENCE_TIME }, options);
+  const fields = await SimpleGribProcessor.processGribMessages(message, { strict: true });
+  assert.equal(fields.length, 1);
+  return fields[0];
+}
+
+function assertSameValues(decoded: Float32Array, original: Float32Array) {
+  assert.equal(decoded.length, original.length);
+  for (let index = 0; index < original.length; index++) {
+    if (Number.isNaN(original[index])) {
+      assert.ok(Number.isNaN(decoded[index]), `cell ${index} should be missing, got ${decoded[index]}`);
+    } else {
+      assert.ok(Math.abs(decoded[index] - original[index]) <= TOLERANCE, `cell ${index}: ${decoded[index]} vs ${original[index]}`);
+    }
+  }
+}
+
+describe('gribEncoder round trip through SimpleGribProcessor', () => {
+  it('keeps every value of a simple-packed grid without a bitmap', async () => {
+    const grid = testGrid(false);
+    const field = await roundTrip(grid, { packing: 'simple', bitmap: false });
+    assert.equal(field.grid.width, WIDTH);
+    assert.equal(field.grid.height, HEIGHT);
+    assert.equal(field.isSampleData, false);
+    assert.equal(field.metadata.timestamp.toISOString(), REFERENCE_TIME.toISOString());
+    assertSameValues(field.grid.values, grid.values);
+  });
+
+  it('keeps the values and the missing cells of a simple-packed grid with a bitmap', async () => {
+    const grid = testGrid(true);
+    const field = await roundTrip(grid, { packing: 'simple' });
+    assertSameValues(field.grid.values, grid.values);
+    assert.equal(field.grid.values.filter(Number.isNaN).length, grid.values.filter(Number.isNaN).length);
+  });
+
+  it('does the same with PNG packing', async () => {
+    const grid = testGrid(true);
+    const field = await roundTrip(grid, { packing: 'png' });
+    assertSameValues(field.grid.values, grid.values);
+  });
+
+  it('places the grid where it was', async () => {
+    const field = await roundTrip(testGrid(false), {});
+    assert.ok(Math.abs(field.metadata.maxLat - 40) < 1e-6);
+    assert.ok(Math.abs(field.metadata.minLat - 37.1) < 1e-6);
+  });
+});
@@ -0,0 +1,62 @@
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm, stat } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { IngestConfig, loadRadarConfig } from '../app/lib/config';
+import { ArchiveIndex, IngestService } from '../app/lib/ingest';
+
+// The fixture's frames are ten minutes apart on 2024-05-20, long before any test run
+const FIXTURE_ENV = { MRMS_SOURCE: 'fixture', MRMS_FIXTURE_FRAMES: '4' };
+Object.assign(process.env, FIXTURE_ENV);
+
+let directory = '';
+
+// The configuration the server would load, defaults included, archiving into the test's directory
+function ingestConfig(overrides: Partial<IngestConfig> = {}): IngestConfig {
+  const { ingest } = loadRadarConfig({ ...FIXTURE_ENV, INGEST_DIR: directory });
+  assert.ok(ingest);
+  return { ...ingest, ...overrides };
+}
+
+async function archiveIndex(): Promise<ArchiveIndex> {
+  return JSON.parse(await readFile(join(directory, 'index.json'), 'utf8')) as ArchiveIndex;
+}
+
+describe('IngestService with the fixture source', () => {
+  before(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'ingest-test-'));
+  });
+
+  after(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  it('archives every fixture frame under the default age limit', async () => {
+    const report = await new IngestService(ingestConfig()).runOnce();
+    assert.deepEqual(report, { added: 4, removed: 0, failed: 0 });
+
+    const { frames } = await archiveIndex();
+    assert.deepEqual(
+      frames.map(frame => frame.validTime),
+      ['2024-05-20T21:00:00.000Z', '2024-05-20T21:10:00.000Z', '2024-05-20T21:20:00.000Z', '2024-05-20T21:30:00.000Z']
+    );
+    for (const frame of frames) {
+      assert.equal((await stat(join(directory, frame.file))).size, frame.size);
+    }
+  });
+
+  it('fetches nothing again on the next cycle', async () => {
+    const report = await new IngestService(ingestConfig()).runOnce();
+    assert.deepEqual(report, { added: 0, removed: 0, failed: 0 });
+  });
+
+  it('counts frame ages back from the newest frame', async () => {
+    const report = await new IngestService(ingestConfig({ maxAgeMs: 15 * 60000 })).runOnce();
+    assert.deepEqual(report, { added: 0, removed: 2, failed: 0 });
+    assert.deepEqual(
+      (await archiveIndex()).frames.map(frame => frame.validTime),
+      ['2024-05-20T21:20:00.000Z', '2024-05-20T21:30:00.000Z']
+    );
+  });
+});
@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { readFileSync } from 'node:fs';
+import { describe, it } from 'node:test';
+import { nearestFile, parseMrmsListing } from '../app/lib/mrmsListing';
+
+// Directory index in the form mrms.ncep.noaa.gov serves it (Apache, table layout)
+const LISTING = readFileSync(new URL('./fixtures/mrms-listing-ReflectivityAtLowestAltitude.html', import.meta.url), 'utf8');
+const DIRECTORY_URL = 'https://mrms.ncep.noaa.gov/2D/ReflectivityAtLowestAltitude/';
+
+describe('parseMrmsListing', () => {
+  const files = parseMrmsListing(LISTING, 'ReflectivityAtLowestAltitude', DIRECTORY_URL);
+
+  it('finds every timestamped file and nothing else', () => {
+    assert.equal(files.length, 12);
+    assert.equal(files[0].name, 'MRMS_ReflectivityAtLowestAltitude_00.50_20261019-114036.grib2.gz');
+    assert.equal(files[11].name, 'MRMS_ReflectivityAtLowestAltitude_00.50_20261019-120240.grib2.gz');
+    // the sort links, the parent directory and the .latest copy are skipped
+    assert.ok(files.every(file => /^MRMS_ReflectivityAtLowestAltitude_00\.50_\d{8}-\d{6}\.grib2\.gz$/.test(file.name)));
+  });
+
+  it('reads the valid time from the name, in UTC', () => {
+    assert.equal(files[0].validTime.toISOString(), '2026-10-19T11:40:36.000Z');
+    assert.equal(files[11].validTime.toISOString(), '2026-10-19T12:02:40.000Z');
+  });
+
+  it('resolves URLs against the directory', () => {
+    assert.equal(files[0].url, `${DIRECTORY_URL}${files[0].name}`);
+  });
+
+  it('sorts oldest first whatever order the page lists them in', () => {
+    const lines = LISTING.split('\n');
+    const reversed = parseMrmsListing(lines.reverse().join('\n'), 'ReflectivityAtLowestAltitude', DIRECTORY_URL);
+    assert.deepEqual(reversed.map(file => file.name), files.map(file => file.name));
+    for (let i = 1; i < files.length; i++) {
+      assert.ok(files[i].validTime > files[i - 1].validTime);
+    }
+  });
+
+  it('lists nothing for another product', () => {
+    assert.deepEqual(parseMrmsListing(LISTING, 'PrecipRate', DIRECTORY_URL), []);
+  });
+
+  it('picks the nearest file, the earlier one on a tie', () => {
+    assert.equal(nearestFile(files, new Date('2026-10-19T11:50:00Z'))?.name, 'MRMS_ReflectivityAtLowestAltitude_00.50_20261019-115040.grib2.gz');
+    const tie = new Date((files[0].validTime.getTime() + files[1].validTime.getTime()) / 2);
+    assert.equal(nearestFile(files, tie), files[0]);
+  });
+});
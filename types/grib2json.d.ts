@@ -1,4 +1,53 @@
+// Wrapper around the grib2json command line tool (https://github.com/cambecc/grib2json)
 declare module 'grib2json' {
-  function grib2json(buffer: Buffer, callback: (err: any, data: any) => void): void;
-  export = grib2json;
-}
\ No newline at end of file
+  export interface Grib2JsonOptions {
+    scriptPath?: string; // launcher path, otherwise GRIB2JSON_PATH or the system PATH
+    names?: boolean; // add descriptive names to the header
+    data?: boolean; // include the values, not just the header
+    category?: number;
+    parameter?: number;
+    surfaceType?: number;
+    surfaceValue?: number;
+  }
+
+  // One field; angles are in degrees
+  export interface Grib2JsonHeader {
+    discipline: number;
+    center: number;
+    subcenter: number;
+    refTime: string; // ISO 8601
+    parameterCategory: number;
+    parameterNumber: number;
+    parameterUnit?: string;
+    genProcessType?: number;
+    forecastTime: number;
+    forecastTimeUnit?: number; // Code Table 4.4; grib2json itself doesn't report it
+    surface1Type: number;
+    surface1Value: number;
+    gridDefinitionTemplate: number;
+    numberPoints: number;
+    scanMode: number;
+    nx: number;
+    ny: number;
+    lo1: number;
+    la1: number;
+    lo2: number;
+    la2: number;
+    dx: number;
+    dy: number;
+    [key: string]: unknown;
+  }
+
+  export interface Grib2JsonRecord {
+    header: Grib2JsonHeader;
+    data?: (number | null)[]; // null where the bitmap masks a cell
+  }
+
+  export function setScriptPath(scriptPath: string): void;
+
+  export default function grib2json(
+    file: string,
+    options: Grib2JsonOptions,
+    callback: (err: Error | null, records: Grib2JsonRecord[]) => void
+  ): void;
+}